@@ -3,6 +3,8 @@ import { Pool, Token } from '../types/schema';
 import { BigDecimal } from '@graphprotocol/graph-ts';
 import { computeCuratedSwapEnabled } from './helpers/misc';
 import { poolTypes } from './helpers/pools';
+import { PriceSource } from './helpers/constants';
+import { setTokenUSDPrice } from './pricing';
 
 export function handleLogArgument(event: LogArgument): void {
   const identifier = event.params.identifier.toHexString();
@@ -55,7 +57,8 @@ function setLatestUSDPrice(event: LogArgument): void {
   if (!token) return;
 
   const base = BigDecimal.fromString('100');
-  token.latestUSDPrice = event.params.value.toBigDecimal().div(base);
+  const price = event.params.value.toBigDecimal().div(base);
+  setTokenUSDPrice(token, price, PriceSource.Curation, null, event.block.number, event.block.timestamp);
   token.save();
 }
 
@@ -8,6 +8,7 @@ class Assets {
   public stableAssets: Address[];
   public pricingAssets: Address[];
   public fxAssetAggregators: Address[][];
+  public oracleAggregators: Address[][];
 }
 
 export const USDC_ADDRESS = Address.fromString('0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48');
@@ -41,6 +42,9 @@ export const assets: Assets = {
     Address.fromString('0x7D1AfA7B718fb893dB30A3aBc0Cfc608AaCfeBB0'), // MATIC
     Address.fromString('0xA13a9247ea42D743238089903570127DdA72fE44'), // bb-a-USD
     Address.fromString('0x60D604890feaa0b5460B28A424407c24fe89374a'), // bb-a-WETH-V3
+    Address.fromString('0x865377367054516e17014CcdED1e7d814EDC9ce4'), // DOLA
+    Address.fromString('0xae78736Cd615f374D3085123A210448E74Fc6393'), // rETH
+    Address.fromString('0xCd5fE23C85820F7B72D0926FC9b05b43E359b7ee'), // weETH
   ],
   fxAssetAggregators: [
     [
@@ -60,4 +64,14 @@ export const assets: Assets = {
       Address.fromString('0x02F878A94a1AE1B15705aCD65b5519A46fe3517e'), // EUR/USD
     ],
   ],
+  oracleAggregators: [
+    [
+      Address.fromString('0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2'), // WETH
+      Address.fromString('0x5f4eC3Df9cbd43714FE2740f5E3616155c5b8419'), // ETH/USD
+    ],
+    [
+      Address.fromString('0x2260FAC5E5542a773Aa44fBCfeDf7C193bc2C599'), // WBTC
+      Address.fromString('0xF4030086522a5bEEa4988F8cA5B36dbC97BeE88c'), // BTC/USD
+    ],
+  ],
 };
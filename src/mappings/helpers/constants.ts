@@ -10,10 +10,39 @@ export namespace ProtocolFeeType {
   export const Aum = 3;
 }
 
+// eslint-disable-next-line @typescript-eslint/no-namespace
+export namespace PoolShareChangeKind {
+  export const Mint = 'Mint';
+  export const Burn = 'Burn';
+  export const TransferIn = 'TransferIn';
+  export const TransferOut = 'TransferOut';
+}
+
+// eslint-disable-next-line @typescript-eslint/no-namespace
+export namespace PriceSource {
+  export const Swap = 'Swap';
+  export const WrappedRate = 'WrappedRate';
+  export const Route = 'Route';
+  export const PoolLiquidity = 'PoolLiquidity';
+  export const Curation = 'Curation';
+  export const FXOracle = 'FXOracle';
+  export const Oracle = 'Oracle';
+}
+
+// eslint-disable-next-line @typescript-eslint/no-namespace
+export namespace SwapClassificationKind {
+  export const CyclicArbitrage = 'CyclicArbitrage';
+  export const SandwichFrontRun = 'SandwichFrontRun';
+  export const Sandwiched = 'Sandwiched';
+  export const SandwichBackRun = 'SandwichBackRun';
+  export const BackRun = 'BackRun';
+}
+
 export const ZERO = BigInt.fromI32(0);
 export const ONE = BigInt.fromI32(1);
 export const ZERO_BD = BigDecimal.fromString('0');
 export const ONE_BD = BigDecimal.fromString('1');
+export const BPS = BigDecimal.fromString('10000');
 export const SWAP_IN = 0;
 export const SWAP_OUT = 1;
 
@@ -27,7 +56,19 @@ export let MAX_NEG_PRICE_CHANGE = BigDecimal.fromString('-0.5'); // -50%%
 export const MIN_POOL_LIQUIDITY = BigDecimal.fromString('2000');
 export const MIN_SWAP_VALUE_USD = BigDecimal.fromString('1');
 
+// maximum number of LatestPrice edges followed from a token to reach a pricing asset
+export const MAX_PRICING_HOPS = 3;
+// maximum number of LatestPrice edges kept per token, the least liquid one is replaced once full
+export const MAX_PRICE_EDGES = 8;
+// how long a token keeps following its route before the pricing graph is searched again
+export const PRICE_ROUTE_SEARCH_INTERVAL = BigInt.fromI32(3600); // 1h
+
 export let FX_ASSET_AGGREGATORS = assets.fxAssetAggregators;
+// pairs of [token, Chainlink feed proxy]; the aggregator behind each proxy changes with the feed's phase
+export let ORACLE_AGGREGATORS = assets.oracleAggregators;
+
+export const MAX_ORACLE_PRICE_DEVIATION = BigDecimal.fromString('0.05'); // 5%
+export const MAX_PRICE_AGE_FOR_ORACLE = BigInt.fromI32(3600); // 1h
 
 export let USD_STABLE_ASSETS = assets.stableAssets;
 export let PRICING_ASSETS = assets.stableAssets.concat(assets.pricingAssets);
@@ -0,0 +1,141 @@
+import { Address, BigDecimal } from '@graphprotocol/graph-ts';
+import { Pool, Token } from '../../types/schema';
+import { ONE_BD, ZERO_BD } from './constants';
+import { USDC_ADDRESS } from './assets';
+import { loadPoolToken } from './misc';
+
+const TWO_BD = BigDecimal.fromString('2');
+const HALF_BD = BigDecimal.fromString('0.5');
+// Cap on the curve's fee per unit of imbalance, see CurveMath.calculateMicroFee
+const MAX_FEE = BigDecimal.fromString('0.25');
+
+// FXPools hold a base token and USDC as the quote token, both targeting half of the pool's value.
+// Balances are valued in the numeraire (USD) through the assimilators' oracle rates.
+class FXCurve {
+  baseToken: Address;
+  baseRate: BigDecimal;
+  quoteRate: BigDecimal;
+  baseNumeraire: BigDecimal;
+  quoteNumeraire: BigDecimal;
+
+  constructor() {
+    this.baseToken = USDC_ADDRESS;
+    this.baseRate = ZERO_BD;
+    this.quoteRate = ZERO_BD;
+    this.baseNumeraire = ZERO_BD;
+    this.quoteNumeraire = ZERO_BD;
+  }
+}
+
+function getFXCurve(pool: Pool): FXCurve | null {
+  let tokenAddresses = pool.tokensList;
+  if (tokenAddresses.length != 2) return null;
+
+  let curve = new FXCurve();
+  for (let i: i32 = 0; i < tokenAddresses.length; i++) {
+    let tokenAddress = Address.fromString(tokenAddresses[i].toHexString());
+    let poolToken = loadPoolToken(pool.id, tokenAddress);
+    let token = Token.load(tokenAddress.toHexString());
+    if (poolToken == null || token == null) return null;
+
+    let rate = token.latestFXPrice;
+    if (rate === null) return null;
+    if (rate.le(ZERO_BD)) return null;
+
+    if (tokenAddress == USDC_ADDRESS) {
+      curve.quoteRate = rate;
+      curve.quoteNumeraire = poolToken.balance.times(rate);
+    } else {
+      curve.baseToken = tokenAddress;
+      curve.baseRate = rate;
+      curve.baseNumeraire = poolToken.balance.times(rate);
+    }
+  }
+
+  if (curve.baseToken == USDC_ADDRESS || curve.quoteRate.equals(ZERO_BD)) return null;
+  return curve;
+}
+
+// Derivative of the curve's fee for a token with respect to its numeraire balance.
+// The fee is zero within beta of the ideal balance and grows quadratically (capped linearly) beyond it.
+function calculateMicroFeeDerivative(
+  balance: BigDecimal,
+  ideal: BigDecimal,
+  beta: BigDecimal,
+  delta: BigDecimal
+): BigDecimal {
+  let upperThreshold = ideal.times(ONE_BD.plus(beta));
+  let lowerThreshold = ideal.times(ONE_BD.minus(beta));
+
+  let feeMargin = ZERO_BD;
+  let sign = ONE_BD;
+  if (balance.gt(upperThreshold)) {
+    feeMargin = balance.minus(upperThreshold);
+  } else if (balance.lt(lowerThreshold)) {
+    feeMargin = lowerThreshold.minus(balance);
+    sign = ONE_BD.neg();
+  } else {
+    return ZERO_BD;
+  }
+
+  let feeRate = feeMargin.div(ideal).times(delta);
+  if (feeRate.gt(MAX_FEE)) {
+    return MAX_FEE.times(sign);
+  }
+  return TWO_BD.times(feeRate).times(sign);
+}
+
+// Stores the curve's spot price and distance from its target split at the pool's current balances.
+// The caller is responsible for saving the pool.
+export function updateFXCurveState(pool: Pool): void {
+  let beta = pool.beta;
+  let delta = pool.delta;
+  if (beta === null || delta === null) return;
+
+  let curve = getFXCurve(pool);
+  if (curve == null) return;
+
+  let grandTotal = curve.baseNumeraire.plus(curve.quoteNumeraire);
+  if (grandTotal.equals(ZERO_BD)) return;
+  let ideal = grandTotal.times(HALF_BD);
+
+  // Selling base into the pool moves numeraire value from quote to base, and the curve
+  // charges (or rebates) the resulting change in its fee on top of the oracle exchange rate
+  let baseFeeDerivative = calculateMicroFeeDerivative(curve.baseNumeraire, ideal, beta, delta);
+  let quoteFeeDerivative = calculateMicroFeeDerivative(curve.quoteNumeraire, ideal, beta, delta);
+  let marginalNumerairePrice = ONE_BD.minus(baseFeeDerivative.minus(quoteFeeDerivative));
+
+  if (marginalNumerairePrice.gt(ZERO_BD)) {
+    pool.spotPrice = marginalNumerairePrice.times(curve.baseRate).div(curve.quoteRate);
+  }
+  pool.targetDeviation = curve.baseNumeraire.div(grandTotal).minus(HALF_BD);
+}
+
+// Returns the price of `asset` in terms of `pricingAsset` using the spot price stored by `updateFXCurveState`.
+// Returns zero if it can't be computed.
+export function calculateFXSpotPrice(pool: Pool, asset: Address, pricingAsset: Address): BigDecimal {
+  let spotPrice = pool.spotPrice;
+  if (spotPrice === null) return ZERO_BD;
+  if (spotPrice.le(ZERO_BD)) return ZERO_BD;
+
+  if (pricingAsset == USDC_ADDRESS) return spotPrice;
+  if (asset == USDC_ADDRESS) return ONE_BD.div(spotPrice);
+  return ZERO_BD;
+}
+
+// Splits a swap's fee between the flat epsilon fee on the amount in and the
+// curve's slippage fee (negative when the swap is rebated for rebalancing the pool).
+// The caller is responsible for saving the pool.
+export function updateFXFeeSplit(pool: Pool, amountInUSD: BigDecimal, swapFeeUSD: BigDecimal): void {
+  let epsilon = pool.epsilon ? pool.epsilon : ZERO_BD;
+  // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+  let baseFeeUSD = amountInUSD.times(epsilon!);
+  let slippageFeeUSD = swapFeeUSD.minus(baseFeeUSD);
+
+  let totalBaseFee = pool.totalBaseFee ? pool.totalBaseFee : ZERO_BD;
+  // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+  pool.totalBaseFee = totalBaseFee!.plus(baseFeeUSD);
+  let totalSlippageFee = pool.totalSlippageFee ? pool.totalSlippageFee : ZERO_BD;
+  // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+  pool.totalSlippageFee = totalSlippageFee!.plus(slippageFeeUSD);
+}
@@ -0,0 +1,297 @@
+import { Address, BigDecimal, log } from '@graphprotocol/graph-ts';
+import { Pool } from '../../types/schema';
+import { ONE_BD, ZERO_BD } from './constants';
+import { loadPoolToken } from './misc';
+import { PoolType } from './pools';
+import { sqrtBD } from './math';
+
+const TWO_BD = BigDecimal.fromString('2');
+const THREE_BD = BigDecimal.fromString('3');
+const FOUR_BD = BigDecimal.fromString('4');
+const CONVERGENCE_TOLERANCE = BigDecimal.fromString('0.000000000000000001');
+
+class ScaledBalances {
+  balances: BigDecimal[];
+  rates: BigDecimal[];
+  tokens: Address[];
+
+  constructor() {
+    this.balances = [];
+    this.rates = [];
+    this.tokens = [];
+  }
+}
+
+// Gyro pools price their tokens with rate-scaled balances
+function getScaledBalances(pool: Pool): ScaledBalances | null {
+  let scaled = new ScaledBalances();
+  let tokenAddresses = pool.tokensList;
+  for (let i: i32 = 0; i < tokenAddresses.length; i++) {
+    let tokenAddress = Address.fromString(tokenAddresses[i].toHexString());
+    let poolToken = loadPoolToken(pool.id, tokenAddress);
+    if (poolToken == null) return null;
+
+    scaled.balances.push(poolToken.balance.times(poolToken.priceRate));
+    scaled.rates.push(poolToken.priceRate);
+    scaled.tokens.push(tokenAddress);
+  }
+  return scaled;
+}
+
+// Prices are quoted as the price of the first token in terms of the second
+export function setGyroPriceRange(pool: Pool): void {
+  if (pool.poolType == PoolType.Gyro2) {
+    let sqrtAlpha = pool.sqrtAlpha;
+    let sqrtBeta = pool.sqrtBeta;
+    if (sqrtAlpha === null || sqrtBeta === null) return;
+    pool.priceRangeLower = sqrtAlpha.times(sqrtAlpha);
+    pool.priceRangeUpper = sqrtBeta.times(sqrtBeta);
+  } else if (pool.poolType == PoolType.Gyro3) {
+    // 3-CLPs are symmetric, every pair trades within [alpha, 1 / alpha]
+    let root3Alpha = pool.root3Alpha;
+    if (root3Alpha === null) return;
+    let alpha = root3Alpha.times(root3Alpha).times(root3Alpha);
+    pool.priceRangeLower = alpha;
+    pool.priceRangeUpper = ONE_BD.div(alpha);
+  } else if (pool.poolType == PoolType.GyroE) {
+    pool.priceRangeLower = pool.alpha;
+    pool.priceRangeUpper = pool.beta;
+  }
+}
+
+// Stores the invariant of the pool's current balances, required to compute spot prices.
+// The caller is responsible for saving the pool.
+export function updateGyroInvariant(pool: Pool): void {
+  if (pool.priceRangeLower === null) {
+    setGyroPriceRange(pool);
+  }
+
+  let scaled = getScaledBalances(pool);
+  if (scaled == null) return;
+
+  let invariant = ZERO_BD;
+  if (pool.poolType == PoolType.Gyro2) {
+    invariant = calculateGyro2Invariant(pool, scaled.balances);
+  } else if (pool.poolType == PoolType.Gyro3) {
+    invariant = calculateGyro3Invariant(pool, scaled.balances);
+  } else if (pool.poolType == PoolType.GyroE) {
+    invariant = calculateGyroEInvariant(pool, scaled.balances);
+  }
+
+  pool.invariant = invariant;
+}
+
+// Returns the price of `asset` in terms of `pricingAsset` at the pool's current balances,
+// using the invariant stored by `updateGyroInvariant`. Returns zero if it can't be computed.
+export function calculateGyroSpotPrice(pool: Pool, asset: Address, pricingAsset: Address): BigDecimal {
+  let invariant = pool.invariant;
+  if (invariant === null) return ZERO_BD;
+  if (invariant.le(ZERO_BD)) return ZERO_BD;
+
+  let scaled = getScaledBalances(pool);
+  if (scaled == null) return ZERO_BD;
+
+  let assetIndex = -1;
+  let pricingAssetIndex = -1;
+  for (let i: i32 = 0; i < scaled.tokens.length; i++) {
+    if (scaled.tokens[i] == asset) assetIndex = i;
+    if (scaled.tokens[i] == pricingAsset) pricingAssetIndex = i;
+  }
+  if (assetIndex < 0 || pricingAssetIndex < 0) return ZERO_BD;
+
+  let price = ZERO_BD;
+  if (pool.poolType == PoolType.Gyro2) {
+    price = calculateGyro2SpotPrice(pool, scaled.balances, invariant);
+  } else if (pool.poolType == PoolType.Gyro3) {
+    price = calculateGyro3SpotPrice(pool, scaled.balances, invariant, assetIndex, pricingAssetIndex);
+  } else if (pool.poolType == PoolType.GyroE) {
+    price = calculateGyroESpotPrice(pool, scaled.balances, invariant);
+  }
+  if (price.le(ZERO_BD)) return ZERO_BD;
+
+  // 2-CLP and E-CLP prices are quoted as token0 in terms of token1
+  if (pool.poolType != PoolType.Gyro3 && assetIndex == 1) {
+    price = ONE_BD.div(price);
+  }
+
+  return price.times(scaled.rates[assetIndex]).div(scaled.rates[pricingAssetIndex]);
+}
+
+/************************************
+ ************** 2-CLP ***************
+ ************************************/
+
+// L solves (x + L / sqrtBeta) * (y + L * sqrtAlpha) = L^2
+function calculateGyro2Invariant(pool: Pool, balances: BigDecimal[]): BigDecimal {
+  let sqrtAlpha = pool.sqrtAlpha;
+  let sqrtBeta = pool.sqrtBeta;
+  if (sqrtAlpha === null || sqrtBeta === null) return ZERO_BD;
+  if (balances.length != 2) return ZERO_BD;
+
+  let x = balances[0];
+  let y = balances[1];
+  let a = ONE_BD.minus(sqrtAlpha.div(sqrtBeta));
+  let b = x.times(sqrtAlpha).plus(y.div(sqrtBeta));
+  let discriminant = b.times(b).plus(FOUR_BD.times(a).times(x).times(y));
+
+  return b.plus(sqrtBD(discriminant)).div(TWO_BD.times(a));
+}
+
+function calculateGyro2SpotPrice(pool: Pool, balances: BigDecimal[], invariant: BigDecimal): BigDecimal {
+  let sqrtAlpha = pool.sqrtAlpha;
+  let sqrtBeta = pool.sqrtBeta;
+  if (sqrtAlpha === null || sqrtBeta === null) return ZERO_BD;
+
+  let virtualX = balances[0].plus(invariant.div(sqrtBeta));
+  let virtualY = balances[1].plus(invariant.times(sqrtAlpha));
+
+  return virtualY.div(virtualX);
+}
+
+/************************************
+ ************** 3-CLP ***************
+ ************************************/
+
+// L solves (x + L * root3Alpha) * (y + L * root3Alpha) * (z + L * root3Alpha) = L^3
+function calculateGyro3Invariant(pool: Pool, balances: BigDecimal[]): BigDecimal {
+  let root3Alpha = pool.root3Alpha;
+  if (root3Alpha === null) return ZERO_BD;
+  if (balances.length != 3) return ZERO_BD;
+
+  let x = balances[0];
+  let y = balances[1];
+  let z = balances[2];
+
+  // a * L^3 - b * L^2 - c * L - d = 0
+  let a = ONE_BD.minus(root3Alpha.times(root3Alpha).times(root3Alpha));
+  let b = x.plus(y).plus(z).times(root3Alpha).times(root3Alpha);
+  let c = x.times(y).plus(y.times(z)).plus(z.times(x)).times(root3Alpha);
+  let d = x.times(y).times(z);
+
+  // The cubic has a single positive root, bounded above by max(x, y, z) / (1 - root3Alpha),
+  // so Newton's method converges monotonically from there
+  let maxBalance = x;
+  if (y.gt(maxBalance)) maxBalance = y;
+  if (z.gt(maxBalance)) maxBalance = z;
+  let invariant = maxBalance.div(ONE_BD.minus(root3Alpha));
+
+  for (let i = 0; i < 255; i++) {
+    let value = a.times(invariant).times(invariant).times(invariant);
+    value = value.minus(b.times(invariant).times(invariant)).minus(c.times(invariant)).minus(d);
+    let derivative = THREE_BD.times(a).times(invariant).times(invariant);
+    derivative = derivative.minus(TWO_BD.times(b).times(invariant)).minus(c);
+    if (derivative.le(ZERO_BD)) break;
+
+    let step = value.div(derivative);
+    invariant = invariant.minus(step);
+    if (step.le(invariant.times(CONVERGENCE_TOLERANCE))) return invariant;
+  }
+
+  log.warning("Gyro3 invariant didn't converge: {}", [pool.id]);
+
+  return invariant;
+}
+
+function calculateGyro3SpotPrice(
+  pool: Pool,
+  balances: BigDecimal[],
+  invariant: BigDecimal,
+  assetIndex: i32,
+  pricingAssetIndex: i32
+): BigDecimal {
+  let root3Alpha = pool.root3Alpha;
+  if (root3Alpha === null) return ZERO_BD;
+
+  let virtualOffset = invariant.times(root3Alpha);
+  let virtualAsset = balances[assetIndex].plus(virtualOffset);
+  let virtualPricingAsset = balances[pricingAssetIndex].plus(virtualOffset);
+
+  return virtualPricingAsset.div(virtualAsset);
+}
+
+/************************************
+ ************** E-CLP ***************
+ ************************************/
+
+class Vector2 {
+  x: BigDecimal;
+  y: BigDecimal;
+
+  constructor(x: BigDecimal, y: BigDecimal) {
+    this.x = x;
+    this.y = y;
+  }
+}
+
+// A = [[c / lambda, -s / lambda], [s, c]] maps the ellipse onto the unit circle
+function mulA(pool: Pool, v: Vector2): Vector2 {
+  let c = pool.c as BigDecimal;
+  let s = pool.s as BigDecimal;
+  let lambda = pool.lambda as BigDecimal;
+  return new Vector2(c.times(v.x).minus(s.times(v.y)).div(lambda), s.times(v.x).plus(c.times(v.y)));
+}
+
+// chi = ((A^-1 tau(beta)).x, (A^-1 tau(alpha)).y), the virtual offsets per unit of invariant
+function getChi(pool: Pool): Vector2 {
+  let c = pool.c as BigDecimal;
+  let s = pool.s as BigDecimal;
+  let lambda = pool.lambda as BigDecimal;
+  let tauBetaX = pool.tauBetaX as BigDecimal;
+  let tauBetaY = pool.tauBetaY as BigDecimal;
+  let tauAlphaX = pool.tauAlphaX as BigDecimal;
+  let tauAlphaY = pool.tauAlphaY as BigDecimal;
+  return new Vector2(
+    lambda.times(c).times(tauBetaX).plus(s.times(tauBetaY)),
+    c.times(tauAlphaY).minus(lambda.times(s).times(tauAlphaX))
+  );
+}
+
+function hasECLPParams(pool: Pool): boolean {
+  return (
+    pool.c !== null &&
+    pool.s !== null &&
+    pool.lambda !== null &&
+    pool.tauAlphaX !== null &&
+    pool.tauAlphaY !== null &&
+    pool.tauBetaX !== null &&
+    pool.tauBetaY !== null
+  );
+}
+
+// r solves ||A(t - r * chi)||^2 = r^2 for the balances t
+function calculateGyroEInvariant(pool: Pool, balances: BigDecimal[]): BigDecimal {
+  if (!hasECLPParams(pool)) return ZERO_BD;
+  if (balances.length != 2) return ZERO_BD;
+
+  let At = mulA(pool, new Vector2(balances[0], balances[1]));
+  let AChi = mulA(pool, getChi(pool));
+
+  let AtAChi = At.x.times(AChi.x).plus(At.y.times(AChi.y));
+  let AChiAChi = AChi.x.times(AChi.x).plus(AChi.y.times(AChi.y));
+  let AtAt = At.x.times(At.x).plus(At.y.times(At.y));
+  let denominator = AChiAChi.minus(ONE_BD);
+  if (denominator.le(ZERO_BD)) return ZERO_BD;
+
+  let discriminant = AtAChi.times(AtAChi).minus(denominator.times(AtAt));
+
+  return AtAChi.plus(sqrtBD(discriminant)).div(denominator);
+}
+
+// The price is the ratio of the gradient components of ||A(t - r * chi)||^2, i.e. of A^T A (t - r * chi)
+function calculateGyroESpotPrice(pool: Pool, balances: BigDecimal[], invariant: BigDecimal): BigDecimal {
+  if (!hasECLPParams(pool)) return ZERO_BD;
+
+  let c = pool.c as BigDecimal;
+  let s = pool.s as BigDecimal;
+  let lambda = pool.lambda as BigDecimal;
+
+  let chi = getChi(pool);
+  let offset = new Vector2(balances[0].minus(invariant.times(chi.x)), balances[1].minus(invariant.times(chi.y)));
+  let v = mulA(pool, offset);
+
+  let gradientX = c.times(v.x).div(lambda).plus(s.times(v.y));
+  let gradientY = c.times(v.y).minus(s.times(v.x).div(lambda));
+  if (gradientY.equals(ZERO_BD)) return ZERO_BD;
+
+  return gradientX.div(gradientY);
+}
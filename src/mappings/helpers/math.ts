@@ -1,5 +1,8 @@
-import { BigInt } from '@graphprotocol/graph-ts';
-import { ZERO, ONE } from './constants';
+import { BigDecimal, BigInt } from '@graphprotocol/graph-ts';
+import { ZERO, ONE, ZERO_BD, ONE_BD } from './constants';
+
+const TWO_BD = BigDecimal.fromString('2');
+const SQRT_TOLERANCE = BigDecimal.fromString('0.000000000000000001');
 
 export function divUp(a: BigInt, b: BigInt): BigInt {
   if (a.isZero()) {
@@ -8,3 +11,18 @@ export function divUp(a: BigInt, b: BigInt): BigInt {
     return ONE.plus(a.minus(ONE).div(b));
   }
 }
+
+// Newton's method square root, as BigDecimal has no native one
+export function sqrtBD(a: BigDecimal): BigDecimal {
+  if (a.le(ZERO_BD)) return ZERO_BD;
+
+  let x = a.gt(ONE_BD) ? a : ONE_BD;
+  for (let i = 0; i < 255; i++) {
+    let next = x.plus(a.div(x)).div(TWO_BD);
+    let diff = next.gt(x) ? next.minus(x) : x.minus(next);
+    x = next;
+    if (diff.le(x.times(SQRT_TOLERANCE))) break;
+  }
+
+  return x;
+}
@@ -1,4 +1,4 @@
-import { BigDecimal, Address, BigInt, ethereum, Bytes } from '@graphprotocol/graph-ts';
+import { BigDecimal, Address, BigInt, ethereum, Bytes, ValueKind } from '@graphprotocol/graph-ts';
 import {
   Pool,
   User,
@@ -13,16 +13,34 @@ import {
   BalancerSnapshot,
   Balancer,
   FXOracle,
+  PoolContract,
+  PoolHourlySnapshot,
+  PoolShareSnapshot,
+  TokenRateSnapshot,
+  TokenHourlySnapshot,
+  TradePairHourlySnapshot,
+  BalancerHourlySnapshot,
+  PoolSwapClassificationSnapshot,
+  SwapFeeUpdate,
 } from '../../types/schema';
 import { ERC20 } from '../../types/Vault/ERC20';
 import { WeightedPool } from '../../types/Vault/WeightedPool';
 import { Swap as SwapEvent, Vault } from '../../types/Vault/Vault';
-import { ONE_BD, SWAP_IN, SWAP_OUT, VAULT_ADDRESS, ZERO, ZERO_ADDRESS, ZERO_BD } from './constants';
-import { PoolType, getPoolAddress, isComposableStablePool } from './pools';
+import { LiquidityGauge } from '../../types/Vault/LiquidityGauge';
+import { ONE_BD, ProtocolFeeType, SWAP_IN, SWAP_OUT, VAULT_ADDRESS, ZERO, ZERO_ADDRESS, ZERO_BD } from './constants';
+import { PoolType, getPoolAddress, isComposableStablePool, isStableLikePool, poolSpecializations } from './pools';
 import { ComposableStablePool } from '../../types/ComposableStablePoolFactory/ComposableStablePool';
 import { valueInUSD } from '../pricing';
 
 const DAY = 24 * 60 * 60;
+const HOUR = 60 * 60;
+const YEAR = 365 * DAY;
+// how many days further back to look for a rate when the token had no update on the exact day
+const MAX_RATE_SNAPSHOT_GAP = 7;
+// how many days further back to look for a pool snapshot when the pool had no activity on the exact day
+const MAX_POOL_SNAPSHOT_GAP = 7;
+// how many of a pool's largest holders are kept in pool.topHolders
+const TOP_HOLDERS_COUNT = 10;
 
 export function bytesToAddress(address: Bytes): Address {
   return Address.fromString(address.toHexString());
@@ -94,6 +112,115 @@ export function getPoolShare(poolId: string, lpAddress: Address): PoolShare {
   return poolShare;
 }
 
+export function updatePoolShareSnapshot(poolShare: PoolShare, timestamp: i32): void {
+  let dayTimestamp = timestamp - (timestamp % DAY);
+  let snapshotId = poolShare.id + '-' + dayTimestamp.toString();
+  let snapshot = PoolShareSnapshot.load(snapshotId);
+
+  if (!snapshot) {
+    snapshot = new PoolShareSnapshot(snapshotId);
+    snapshot.poolShare = poolShare.id;
+    snapshot.userAddress = poolShare.userAddress;
+    snapshot.poolId = poolShare.poolId;
+    snapshot.timestamp = dayTimestamp;
+  }
+
+  snapshot.balance = poolShare.balance;
+  snapshot.save();
+}
+
+// Keeps pool.topHolders sorted by balance as the given share's balance changes.
+// Only the share that changed is placed, so when a listed holder's balance drops the holders
+// outside the list are not considered for the slot it leaves, until their own balance changes.
+// The caller is responsible for saving the pool.
+export function updateTopHolders(pool: Pool, poolShare: PoolShare, previousBalance: BigDecimal): void {
+  let balance = poolShare.balance;
+  // pools created before the sum was introduced (e.g. carried over from a graft base) have no sum to update
+  let sumOfSquaredBalances = pool.sumOfSquaredBalances;
+  if (sumOfSquaredBalances) {
+    pool.sumOfSquaredBalances = sumOfSquaredBalances
+      .plus(balance.times(balance))
+      .minus(previousBalance.times(previousBalance));
+  }
+
+  let topHolders = pool.topHolders ? (pool.topHolders as string[]) : new Array<string>();
+  let holders = new Array<string>();
+  let inserted = false;
+  for (let i: i32 = 0; i < topHolders.length; i++) {
+    if (topHolders[i] == poolShare.id) continue;
+
+    let holder = PoolShare.load(topHolders[i]);
+    if (holder == null) continue;
+
+    if (!inserted && balance.gt(holder.balance)) {
+      holders.push(poolShare.id);
+      inserted = true;
+    }
+    holders.push(holder.id);
+  }
+  if (!inserted && balance.gt(ZERO_BD)) {
+    holders.push(poolShare.id);
+  }
+
+  pool.topHolders = holders.length > TOP_HOLDERS_COUNT ? holders.slice(0, TOP_HOLDERS_COUNT) : holders;
+}
+
+// The caller is responsible for saving the pool.
+export function updateHolderConcentration(pool: Pool): void {
+  let topHolders = pool.topHolders ? (pool.topHolders as string[]) : new Array<string>();
+  let totalShares = pool.totalShares;
+  if (totalShares.le(ZERO_BD)) return;
+
+  let vault = Balancer.load('2') as Balancer;
+  let protocolFeeCollector = vault.protocolFeesCollector;
+
+  let largestHolderBalance = ZERO_BD;
+  let topHoldersBalance = ZERO_BD;
+  let hasProtocolTopHolder = false;
+  for (let i: i32 = 0; i < topHolders.length; i++) {
+    let holder = PoolShare.load(topHolders[i]);
+    if (holder == null) continue;
+
+    if (i == 0) {
+      largestHolderBalance = holder.balance;
+    }
+    topHoldersBalance = topHoldersBalance.plus(holder.balance);
+
+    let holderAddress = Address.fromString(holder.userAddress);
+    if (holderAddress == VAULT_ADDRESS) {
+      hasProtocolTopHolder = true;
+    } else if (protocolFeeCollector && holderAddress == protocolFeeCollector) {
+      hasProtocolTopHolder = true;
+    } else if (isGaugeHolder(pool, holder)) {
+      hasProtocolTopHolder = true;
+    }
+  }
+
+  pool.largestHolderShare = largestHolderBalance.div(totalShares);
+  pool.topHoldersShare = topHoldersBalance.div(totalShares);
+  let sumOfSquaredBalances = pool.sumOfSquaredBalances;
+  if (sumOfSquaredBalances) {
+    pool.herfindahlIndex = sumOfSquaredBalances.div(totalShares.times(totalShares));
+  }
+  pool.hasProtocolTopHolder = hasProtocolTopHolder;
+}
+
+// Gauges are recognised by their lp_token pointing at the pool, checked once per holder
+function isGaugeHolder(pool: Pool, holder: PoolShare): boolean {
+  // the generated getter reads an unset Boolean as false, so check whether it has been set
+  let storedIsGauge = holder.get('isGauge');
+  if (storedIsGauge != null && storedIsGauge.kind != ValueKind.NULL) {
+    return holder.isGauge;
+  }
+
+  let gaugeContract = LiquidityGauge.bind(Address.fromString(holder.userAddress));
+  let lpTokenCall = gaugeContract.try_lp_token();
+  let isGauge = !lpTokenCall.reverted && lpTokenCall.value == pool.address;
+  holder.isGauge = isGauge;
+  holder.save();
+  return isGauge;
+}
+
 export function createPoolShareEntity(poolId: string, lpAddress: Address): PoolShare {
   createUserEntity(lpAddress);
 
@@ -122,10 +249,89 @@ export function newPoolEntity(poolId: string): Pool {
   pool.totalShares = ZERO_BD;
   pool.swapsCount = BigInt.fromI32(0);
   pool.holdersCount = BigInt.fromI32(0);
+  pool.sumOfSquaredBalances = ZERO_BD;
+
+  return pool;
+}
+
+export function findOrInitializeVault(): Balancer {
+  let vault: Balancer | null = Balancer.load('2');
+  if (vault != null) return vault;
+
+  // if no vault yet, set up blank initial
+  vault = new Balancer('2');
+  vault.poolCount = 0;
+  vault.totalLiquidity = ZERO_BD;
+  vault.totalSwapVolume = ZERO_BD;
+  vault.totalSwapFee = ZERO_BD;
+  vault.totalSwapCount = ZERO;
+  vault.isPaused = false;
+
+  // set up protocol fees collector
+  vault.protocolFeesCollector = getProtocolFeeCollector();
+
+  return vault;
+}
+
+// pool entity as registered in the Vault
+// factory handlers fill in the pool type and any type-specific attributes
+export function createPoolEntity(
+  poolId: string,
+  poolAddress: Address,
+  specialization: i32,
+  event: ethereum.Event
+): Pool {
+  let pool = newPoolEntity(poolId);
+
+  // factory handlers read the swap fee, pools from other factories get it on their first swap
+  pool.swapFee = ZERO_BD;
+  pool.createTime = event.block.timestamp.toI32();
+  pool.address = poolAddress;
+  if (specialization >= 0 && specialization < poolSpecializations.length) {
+    pool.specialization = poolSpecializations[specialization];
+  }
+  pool.oracleEnabled = false;
+  pool.tx = event.transaction.hash;
+  pool.swapEnabled = true;
+  pool.swapEnabledInternal = true;
+  pool.isPaused = false;
+
+  let bpt = getToken(poolAddress);
+
+  pool.name = bpt.name;
+  pool.symbol = bpt.symbol;
+
+  pool.save();
+
+  let vault = findOrInitializeVault();
+  vault.poolCount += 1;
+  vault.save();
+
+  let vaultSnapshot = getBalancerSnapshot(vault.id, event.block.timestamp.toI32());
+  vaultSnapshot.poolCount += 1;
+  vaultSnapshot.save();
+
+  let poolContract = PoolContract.load(poolAddress.toHexString());
+  if (poolContract == null) {
+    poolContract = new PoolContract(poolAddress.toHexString());
+    poolContract.pool = poolId;
+    poolContract.save();
+  }
 
   return pool;
 }
 
+// Pools from factories we don't index have no factory handler to read their swap fee,
+// so it is read once, on their first swap. The caller is responsible for saving the pool.
+export function initializeUnknownPoolSwapFee(pool: Pool): void {
+  if (pool.factory || pool.swapsCount.gt(ZERO)) return;
+
+  let swapFeeCall = WeightedPool.bind(bytesToAddress(pool.address)).try_getSwapFeePercentage();
+  if (!swapFeeCall.reverted) {
+    pool.swapFee = scaleDown(swapFeeCall.value, 18);
+  }
+}
+
 export function getPoolTokenId(poolId: string, tokenAddress: Address): string {
   return poolId.concat('-').concat(tokenAddress.toHexString());
 }
@@ -142,6 +348,43 @@ export function createPoolTokenEntity(
 ): void {
   let poolTokenId = getPoolTokenId(pool.id, tokenAddress);
 
+  // tokens are registered with the Vault before the factory handler knows the pool type,
+  // so the factory handler reuses the PoolToken and only fills in the type-specific attributes
+  let poolToken = PoolToken.load(poolTokenId);
+  if (poolToken == null) {
+    poolToken = newPoolTokenEntity(pool, poolTokenId, tokenAddress, tokenIndex, assetManagerAddress);
+  }
+
+  if (isComposableStablePool(pool)) {
+    let poolAddress = bytesToAddress(pool.address);
+    let poolContract = ComposableStablePool.bind(poolAddress);
+    let isTokenExemptCall = poolContract.try_isTokenExemptFromYieldProtocolFee(tokenAddress);
+
+    if (!isTokenExemptCall.reverted) {
+      poolToken.isExemptFromYieldProtocolFee = isTokenExemptCall.value;
+    }
+  } else if (pool.poolType == PoolType.Weighted && pool.poolTypeVersion == 4) {
+    let poolAddress = bytesToAddress(pool.address);
+    // ComposableStable ABI has the same getRateProviders function as WeightedV4
+    let poolContract = ComposableStablePool.bind(poolAddress);
+    let rateProvidersCall = poolContract.try_getRateProviders();
+
+    // check array length to avoid out of bounds error if call doesn't revert but returns empty array
+    if (!rateProvidersCall.reverted && rateProvidersCall.value.length > tokenIndex) {
+      poolToken.isExemptFromYieldProtocolFee = rateProvidersCall.value[tokenIndex] == ZERO_ADDRESS;
+    }
+  }
+
+  poolToken.save();
+}
+
+function newPoolTokenEntity(
+  pool: Pool,
+  poolTokenId: string,
+  tokenAddress: Address,
+  tokenIndex: i32,
+  assetManagerAddress: Address
+): PoolToken {
   let token = ERC20.bind(tokenAddress);
   let symbol = '';
   let name = '';
@@ -191,27 +434,7 @@ export function createPoolTokenEntity(
   poolToken.token = _token.id;
   poolToken.index = tokenIndex;
 
-  if (isComposableStablePool(pool)) {
-    let poolAddress = bytesToAddress(pool.address);
-    let poolContract = ComposableStablePool.bind(poolAddress);
-    let isTokenExemptCall = poolContract.try_isTokenExemptFromYieldProtocolFee(tokenAddress);
-
-    if (!isTokenExemptCall.reverted) {
-      poolToken.isExemptFromYieldProtocolFee = isTokenExemptCall.value;
-    }
-  } else if (pool.poolType == PoolType.Weighted && pool.poolTypeVersion == 4) {
-    let poolAddress = bytesToAddress(pool.address);
-    // ComposableStable ABI has the same getRateProviders function as WeightedV4
-    let poolContract = ComposableStablePool.bind(poolAddress);
-    let rateProvidersCall = poolContract.try_getRateProviders();
-
-    // check array length to avoid out of bounds error if call doesn't revert but returns empty array
-    if (!rateProvidersCall.reverted && rateProvidersCall.value.length > tokenIndex) {
-      poolToken.isExemptFromYieldProtocolFee = rateProvidersCall.value[tokenIndex] == ZERO_ADDRESS;
-    }
-  }
-
-  poolToken.save();
+  return poolToken;
 }
 
 export function loadPriceRateProvider(poolId: string, tokenAddress: Address): PriceRateProvider | null {
@@ -242,12 +465,14 @@ export function createPoolSnapshot(pool: Pool, timestamp: i32): void {
   let snapshotId = poolId + '-' + dayTimestamp.toString();
   let snapshot = PoolSnapshot.load(snapshotId);
 
+  let isNewSnapshot = !snapshot;
   if (!snapshot) {
     snapshot = new PoolSnapshot(snapshotId);
   }
 
   let tokens = pool.tokensList;
   let amounts = new Array<BigDecimal>(tokens.length);
+  let poolTokens = new Array<PoolToken>();
   for (let i = 0; i < tokens.length; i++) {
     let token = tokens[i];
     let tokenAddress = Address.fromString(token.toHexString());
@@ -255,6 +480,7 @@ export function createPoolSnapshot(pool: Pool, timestamp: i32): void {
     if (poolToken == null) continue;
 
     amounts[i] = poolToken.balance;
+    poolTokens.push(poolToken);
   }
 
   snapshot.pool = poolId;
@@ -264,10 +490,190 @@ export function createPoolSnapshot(pool: Pool, timestamp: i32): void {
   snapshot.swapFees = pool.totalSwapFee;
   snapshot.liquidity = pool.totalLiquidity;
   snapshot.protocolFee = pool.totalProtocolFee;
+  snapshot.swapProtocolFee = pool.totalSwapProtocolFee;
+  snapshot.yieldProtocolFee = pool.totalYieldProtocolFee;
+  snapshot.aumProtocolFee = pool.totalAumProtocolFee;
   snapshot.swapsCount = pool.swapsCount;
   snapshot.holdersCount = pool.holdersCount;
+  snapshot.largestHolderShare = pool.largestHolderShare;
+  snapshot.topHoldersShare = pool.topHoldersShare;
+  snapshot.herfindahlIndex = pool.herfindahlIndex;
+  snapshot.hasProtocolTopHolder = pool.hasProtocolTopHolder;
+  snapshot.yieldAPR = calculatePoolYieldAPR(pool, poolTokens);
   snapshot.timestamp = dayTimestamp;
+  if (isNewSnapshot) {
+    setPoolSnapshotLookback(snapshot, pool);
+  }
+  updatePoolSnapshotReturns(snapshot, pool);
+  updatePoolSnapshotImpermanentLoss(snapshot, pool, isNewSnapshot);
   snapshot.save();
+
+  let hourTimestamp = timestamp - (timestamp % HOUR);
+  let hourlySnapshotId = poolId + '-' + hourTimestamp.toString();
+  let hourlySnapshot = PoolHourlySnapshot.load(hourlySnapshotId);
+
+  if (!hourlySnapshot) {
+    hourlySnapshot = new PoolHourlySnapshot(hourlySnapshotId);
+  }
+
+  hourlySnapshot.pool = poolId;
+  hourlySnapshot.amounts = amounts;
+  hourlySnapshot.totalShares = pool.totalShares;
+  hourlySnapshot.swapVolume = pool.totalSwapVolume;
+  hourlySnapshot.swapFees = pool.totalSwapFee;
+  hourlySnapshot.liquidity = pool.totalLiquidity;
+  hourlySnapshot.protocolFee = pool.totalProtocolFee;
+  hourlySnapshot.swapsCount = pool.swapsCount;
+  hourlySnapshot.holdersCount = pool.holdersCount;
+  hourlySnapshot.timestamp = hourTimestamp;
+  hourlySnapshot.save();
+}
+
+// Returns the latest snapshot of the pool taken at least `days` days before the given day
+function findPoolSnapshotBefore(poolId: string, dayTimestamp: i32, days: i32): PoolSnapshot | null {
+  for (let i = days; i <= days + MAX_POOL_SNAPSHOT_GAP; i++) {
+    let snapshot = PoolSnapshot.load(poolId + '-' + (dayTimestamp - i * DAY).toString());
+    if (snapshot != null) return snapshot;
+  }
+  return null;
+}
+
+// Derives the snapshot's fee APRs and BPT price change from the cumulative fields of earlier snapshots.
+// Pools created within the lookback window start from zero; older pools without a recent snapshot are left empty.
+function updatePoolSnapshotReturns(snapshot: PoolSnapshot, pool: Pool): void {
+  let liquidity = pool.totalLiquidity;
+  let protocolSwapFee = pool.protocolSwapFeeCache ? pool.protocolSwapFeeCache : ZERO_BD;
+  // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+  let lpFeeShare = ONE_BD.minus(protocolSwapFee!);
+  let daysPerYear = BigInt.fromI32(365).toBigDecimal();
+
+  let bpt = Token.load(pool.address.toHexString());
+  let bptPrice = bpt != null ? bpt.latestUSDPrice : null;
+  snapshot.bptPrice = bptPrice;
+
+  let previousSwapFees = snapshot.previousSwapFees;
+  if (previousSwapFees !== null && snapshot.swapFeesDays > 0) {
+    let swapFeesDelta = pool.totalSwapFee.minus(previousSwapFees);
+    snapshot.swapFeesDelta = swapFeesDelta;
+    if (liquidity.gt(ZERO_BD)) {
+      let days = BigInt.fromI32(snapshot.swapFeesDays).toBigDecimal();
+      snapshot.feeAPR = swapFeesDelta.times(lpFeeShare).times(daysPerYear).div(days).div(liquidity);
+    }
+  }
+
+  let previousBptPrice = snapshot.previousBptPrice;
+  if (bptPrice !== null && previousBptPrice !== null && previousBptPrice.gt(ZERO_BD)) {
+    snapshot.bptPriceChange = bptPrice.minus(previousBptPrice).div(previousBptPrice);
+  }
+
+  let weekAgoSwapFees = snapshot.weekAgoSwapFees;
+  if (weekAgoSwapFees !== null && snapshot.weekAgoDays > 0 && liquidity.gt(ZERO_BD)) {
+    let days = BigInt.fromI32(snapshot.weekAgoDays).toBigDecimal();
+    let swapFees = pool.totalSwapFee.minus(weekAgoSwapFees);
+    let feeAPR7d = swapFees.times(lpFeeShare).times(daysPerYear).div(days).div(liquidity);
+    snapshot.feeAPR7d = feeAPR7d;
+
+    let yieldAPR = snapshot.yieldAPR;
+    snapshot.totalAPR = yieldAPR !== null ? feeAPR7d.plus(yieldAPR) : feeAPR7d;
+  }
+}
+
+// Looks up the earlier snapshots the day's returns are measured from, once per daily snapshot
+function setPoolSnapshotLookback(snapshot: PoolSnapshot, pool: Pool): void {
+  let dayTimestamp = snapshot.timestamp;
+  let previous = findPoolSnapshotBefore(pool.id, dayTimestamp, 1);
+  if (previous != null) {
+    snapshot.previousSwapFees = previous.swapFees;
+    snapshot.previousBptPrice = previous.bptPrice;
+    snapshot.swapFeesDays = (dayTimestamp - previous.timestamp) / DAY;
+  } else if (pool.createTime >= dayTimestamp - (1 + MAX_POOL_SNAPSHOT_GAP) * DAY) {
+    // the delta covers every day since the day the pool was created
+    snapshot.previousSwapFees = ZERO_BD;
+    snapshot.swapFeesDays = (dayTimestamp - (pool.createTime / DAY) * DAY) / DAY + 1;
+  }
+
+  let weekAgo = findPoolSnapshotBefore(pool.id, dayTimestamp, 7);
+  if (weekAgo != null) {
+    snapshot.weekAgoSwapFees = weekAgo.swapFees;
+    snapshot.weekAgoDays = (dayTimestamp - weekAgo.timestamp) / DAY;
+  }
+}
+
+// Compares the snapshot's BPT price with holding the tokens which backed one BPT when the pool was first priced.
+// Only weighted and stable pools are benchmarked, and only once every token of the basket has a USD price.
+function updatePoolSnapshotImpermanentLoss(snapshot: PoolSnapshot, pool: Pool, isNewSnapshot: boolean): void {
+  if (pool.poolType != PoolType.Weighted && !isStableLikePool(pool)) return;
+
+  // the HODL side is valued once per daily snapshot, later events only move the BPT side
+  if (isNewSnapshot || pool.hodlBasket === null) {
+    setPoolSnapshotHodlValue(snapshot, pool);
+  }
+
+  let bptPrice = snapshot.bptPrice;
+  let hodlValue = snapshot.hodlValue;
+  if (bptPrice === null || bptPrice.le(ZERO_BD) || hodlValue === null) return;
+
+  snapshot.impermanentLoss = bptPrice.div(hodlValue).minus(ONE_BD);
+}
+
+// Values the pool's hodlBasket, taking it first if the pool has none yet
+function setPoolSnapshotHodlValue(snapshot: PoolSnapshot, pool: Pool): void {
+  let bptPrice = snapshot.bptPrice;
+  if (bptPrice === null || bptPrice.le(ZERO_BD) || pool.totalShares.le(ZERO_BD)) return;
+
+  let tokens = pool.tokensList;
+  let hodlBasket = pool.hodlBasket;
+  if (hodlBasket === null) {
+    let amounts = snapshot.amounts;
+    hodlBasket = new Array<BigDecimal>(tokens.length);
+    for (let i = 0; i < tokens.length; i++) {
+      // the pool's own BPT is not part of the basket
+      hodlBasket[i] = tokens[i] == pool.address ? ZERO_BD : amounts[i].div(pool.totalShares);
+    }
+    pool.hodlBasket = hodlBasket;
+    pool.hodlBasketTimestamp = snapshot.timestamp;
+    pool.save();
+  }
+  // the basket no longer matches a pool whose tokens have changed
+  if (hodlBasket.length != tokens.length) return;
+
+  let hodlValue = ZERO_BD;
+  for (let i = 0; i < tokens.length; i++) {
+    if (hodlBasket[i].equals(ZERO_BD)) continue;
+
+    let tokenValue = valueInUSD(hodlBasket[i], Address.fromString(tokens[i].toHexString()));
+    if (tokenValue.equals(ZERO_BD)) return;
+    hodlValue = hodlValue.plus(tokenValue);
+  }
+  if (hodlValue.equals(ZERO_BD)) return;
+
+  snapshot.hodlValue = hodlValue;
+}
+
+// Weighs the 7 day yield of each rate-provided token by its share of the pool's liquidity,
+// charging the protocol yield fee on tokens that aren't exempt from it
+function calculatePoolYieldAPR(pool: Pool, poolTokens: PoolToken[]): BigDecimal | null {
+  if (pool.totalLiquidity.le(ZERO_BD)) return null;
+
+  let protocolYieldFee = pool.protocolYieldFeeCache ? pool.protocolYieldFeeCache : ZERO_BD;
+  let weightedYield = ZERO_BD;
+  for (let i = 0; i < poolTokens.length; i++) {
+    let poolToken = poolTokens[i];
+    // the yield is stored on the pool token when its rate is updated
+    let tokenYield = poolToken.yieldAPR;
+    if (tokenYield === null) continue;
+
+    let tokenAddress = Address.fromString(poolToken.address);
+    if (tokenAddress == pool.address) continue;
+
+    if (!poolToken.isExemptFromYieldProtocolFee) {
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+      tokenYield = tokenYield.times(ONE_BD.minus(protocolYieldFee!));
+    }
+    weightedYield = weightedYield.plus(valueInUSD(poolToken.balance, tokenAddress).times(tokenYield));
+  }
+
+  return weightedYield.div(pool.totalLiquidity);
 }
 
 export function createUserEntity(address: Address): void {
@@ -309,8 +715,13 @@ export function createToken(tokenAddress: Address): Token {
   token.totalSwapCount = ZERO;
   token.totalVolumeUSD = ZERO_BD;
   token.totalVolumeNotional = ZERO_BD;
+  token.totalFlashLoanCount = ZERO;
+  token.totalFlashLoanVolumeNotional = ZERO_BD;
+  token.totalFlashLoanFeeNotional = ZERO_BD;
+  token.totalFlashLoanFeeUSD = ZERO_BD;
   token.address = tokenAddress.toHexString();
   token.save();
+
   return token;
 }
 
@@ -326,13 +737,16 @@ export function getToken(tokenAddress: Address): Token {
 
 export function getTokenSnapshot(tokenAddress: Address, event: ethereum.Event): TokenSnapshot {
   let timestamp = event.block.timestamp.toI32();
+  let token = getToken(tokenAddress);
+  // callers save the token before updating its snapshots
+  updateTokenHourlySnapshot(token, timestamp);
+
   let dayID = timestamp / 86400;
   let id = tokenAddress.toHexString() + '-' + dayID.toString();
   let dayData = TokenSnapshot.load(id);
 
   if (dayData == null) {
     let dayStartTimestamp = dayID * 86400;
-    let token = getToken(tokenAddress);
     dayData = new TokenSnapshot(id);
     dayData.timestamp = dayStartTimestamp;
     dayData.totalSwapCount = token.totalSwapCount;
@@ -340,6 +754,10 @@ export function getTokenSnapshot(tokenAddress: Address, event: ethereum.Event):
     dayData.totalBalanceNotional = token.totalBalanceNotional;
     dayData.totalVolumeUSD = token.totalVolumeUSD;
     dayData.totalVolumeNotional = token.totalVolumeNotional;
+    dayData.totalFlashLoanCount = token.totalFlashLoanCount;
+    dayData.totalFlashLoanVolumeNotional = token.totalFlashLoanVolumeNotional;
+    dayData.totalFlashLoanFeeNotional = token.totalFlashLoanFeeNotional;
+    dayData.totalFlashLoanFeeUSD = token.totalFlashLoanFeeUSD;
     dayData.token = token.id;
     dayData.save();
   }
@@ -347,6 +765,29 @@ export function getTokenSnapshot(tokenAddress: Address, event: ethereum.Event):
   return dayData;
 }
 
+function updateTokenHourlySnapshot(token: Token, timestamp: i32): void {
+  let hourID = timestamp / HOUR;
+  let id = token.id + '-' + hourID.toString();
+  let hourData = TokenHourlySnapshot.load(id);
+
+  if (hourData == null) {
+    hourData = new TokenHourlySnapshot(id);
+    hourData.token = token.id;
+    hourData.timestamp = hourID * HOUR;
+  }
+
+  hourData.totalSwapCount = token.totalSwapCount;
+  hourData.totalBalanceUSD = token.totalBalanceUSD;
+  hourData.totalBalanceNotional = token.totalBalanceNotional;
+  hourData.totalVolumeUSD = token.totalVolumeUSD;
+  hourData.totalVolumeNotional = token.totalVolumeNotional;
+  hourData.totalFlashLoanCount = token.totalFlashLoanCount;
+  hourData.totalFlashLoanVolumeNotional = token.totalFlashLoanVolumeNotional;
+  hourData.totalFlashLoanFeeNotional = token.totalFlashLoanFeeNotional;
+  hourData.totalFlashLoanFeeUSD = token.totalFlashLoanFeeUSD;
+  hourData.save();
+}
+
 export function uptickSwapsForToken(tokenAddress: Address, event: ethereum.Event): void {
   let token = getToken(tokenAddress);
   // update the overall swap count for the token
@@ -408,13 +849,120 @@ export function getTradePair(token0Address: Address, token1Address: Address): Tr
   return tradePair;
 }
 
+// Returns the token's 7 day yield APR
+export function updateTokenRateSnapshot(tokenAddress: Address, rate: BigDecimal, timestamp: i32): BigDecimal | null {
+  let token = getToken(tokenAddress);
+  let dayID = timestamp / DAY;
+
+  let yieldAPR1d = calculateYieldAPR(token.id, rate, timestamp, dayID, 1);
+  let yieldAPR7d = calculateYieldAPR(token.id, rate, timestamp, dayID, 7);
+  let yieldAPR30d = calculateYieldAPR(token.id, rate, timestamp, dayID, 30);
+
+  token.latestRate = rate;
+  token.yieldAPR1d = yieldAPR1d;
+  token.yieldAPR7d = yieldAPR7d;
+  token.yieldAPR30d = yieldAPR30d;
+  token.save();
+
+  let id = token.id + '-' + dayID.toString();
+  let snapshot = TokenRateSnapshot.load(id);
+  if (snapshot == null) {
+    snapshot = new TokenRateSnapshot(id);
+    snapshot.token = token.id;
+    snapshot.timestamp = dayID * DAY;
+  }
+  snapshot.rate = rate;
+  snapshot.rateTimestamp = timestamp;
+  snapshot.yieldAPR1d = yieldAPR1d;
+  snapshot.yieldAPR7d = yieldAPR7d;
+  snapshot.yieldAPR30d = yieldAPR30d;
+  snapshot.save();
+
+  return yieldAPR7d;
+}
+
+// Annualises the growth of a token's rate since the last rate reported `days` ago
+function calculateYieldAPR(
+  tokenId: string,
+  rate: BigDecimal,
+  timestamp: i32,
+  dayID: i32,
+  days: i32
+): BigDecimal | null {
+  for (let i = days; i <= days + MAX_RATE_SNAPSHOT_GAP; i++) {
+    let snapshot = TokenRateSnapshot.load(tokenId + '-' + (dayID - i).toString());
+    if (snapshot == null) continue;
+
+    let elapsed = timestamp - snapshot.rateTimestamp;
+    if (elapsed <= 0 || snapshot.rate.le(ZERO_BD)) return null;
+
+    let growth = rate.div(snapshot.rate).minus(ONE_BD);
+    return growth.times(BigInt.fromI32(YEAR).toBigDecimal()).div(BigInt.fromI32(elapsed).toBigDecimal());
+  }
+  return null;
+}
+
+// Sets the pool's swap fee to the one in effect at the given time, interpolated along the pool's latest
+// SwapFeeUpdate. Fixed fee changes are recorded as updates which start and end at once.
+// The caller is responsible for saving the pool.
+export function updateSwapFee(pool: Pool, blockTimestamp: BigInt): void {
+  let latestSwapFeeUpdateId = pool.latestSwapFeeUpdate;
+  if (latestSwapFeeUpdateId === null) return;
+
+  let latestSwapFeeUpdate = SwapFeeUpdate.load(latestSwapFeeUpdateId);
+  if (latestSwapFeeUpdate == null) return;
+
+  pool.swapFee = calculateSwapFee(latestSwapFeeUpdate, blockTimestamp);
+}
+
+function calculateSwapFee(latestSwapFeeUpdate: SwapFeeUpdate, blockTimestamp: BigInt): BigDecimal {
+  let startValue = latestSwapFeeUpdate.startSwapFeePercentage;
+  let endValue = latestSwapFeeUpdate.endSwapFeePercentage;
+  let startTime = latestSwapFeeUpdate.startTimestamp;
+  let endTime = latestSwapFeeUpdate.endTimestamp;
+
+  if (blockTimestamp.ge(endTime)) return endValue;
+  // the start fee applies from the moment the update is scheduled
+  if (blockTimestamp.le(startTime)) return startValue;
+
+  let duration = endTime.minus(startTime).toBigDecimal();
+  let elapsedTime = blockTimestamp.minus(startTime).toBigDecimal();
+  return startValue.plus(endValue.minus(startValue).times(elapsedTime).div(duration));
+}
+
+export function getPoolSwapClassificationSnapshot(poolId: string, timestamp: i32): PoolSwapClassificationSnapshot {
+  let dayTimestamp = timestamp - (timestamp % DAY);
+  let id = poolId + '-' + dayTimestamp.toString();
+  let snapshot = PoolSwapClassificationSnapshot.load(id);
+  if (snapshot == null) {
+    snapshot = new PoolSwapClassificationSnapshot(id);
+    snapshot.pool = poolId;
+    snapshot.timestamp = dayTimestamp;
+    snapshot.cyclicArbitrageCount = ZERO;
+    snapshot.cyclicArbitrageVolumeUSD = ZERO_BD;
+    snapshot.sandwichCount = ZERO;
+    snapshot.sandwichAttackVolumeUSD = ZERO_BD;
+    snapshot.sandwichedCount = ZERO;
+    snapshot.sandwichedVolumeUSD = ZERO_BD;
+    snapshot.backRunCount = ZERO;
+    snapshot.backRunVolumeUSD = ZERO_BD;
+    snapshot.toxicVolumeUSD = ZERO_BD;
+  }
+  return snapshot;
+}
+
 export function getTradePairSnapshot(tradePairId: string, timestamp: i32): TradePairSnapshot {
+  let tradePair = TradePair.load(tradePairId);
+  // callers save the trade pair before updating its snapshots
+  if (tradePair != null) {
+    updateTradePairHourlySnapshot(tradePair, timestamp);
+  }
+
   let dayID = timestamp / 86400;
   let id = tradePairId + '-' + dayID.toString();
   let snapshot = TradePairSnapshot.load(id);
   if (snapshot == null) {
     let dayStartTimestamp = dayID * 86400;
-    let tradePair = TradePair.load(tradePairId);
 
     snapshot = new TradePairSnapshot(id);
     snapshot.pair = tradePairId;
@@ -426,7 +974,26 @@ export function getTradePairSnapshot(tradePairId: string, timestamp: i32): Trade
   return snapshot;
 }
 
+function updateTradePairHourlySnapshot(tradePair: TradePair, timestamp: i32): void {
+  let hourID = timestamp / HOUR;
+  let id = tradePair.id + '-' + hourID.toString();
+  let snapshot = TradePairHourlySnapshot.load(id);
+  if (snapshot == null) {
+    snapshot = new TradePairHourlySnapshot(id);
+    snapshot.pair = tradePair.id;
+    snapshot.timestamp = hourID * HOUR;
+  }
+  snapshot.totalSwapVolume = tradePair.totalSwapVolume;
+  snapshot.totalSwapFee = tradePair.totalSwapFee;
+  snapshot.save();
+}
+
 export function getBalancerSnapshot(vaultId: string, timestamp: i32): BalancerSnapshot {
+  // we know that the vault should be created by this call
+  let vault = Balancer.load('2') as Balancer;
+  // callers save the vault before updating its snapshots
+  updateBalancerHourlySnapshot(vault, timestamp);
+
   let dayID = timestamp / 86400;
   let id = vaultId + '-' + dayID.toString();
   let snapshot = BalancerSnapshot.load(id);
@@ -434,8 +1001,6 @@ export function getBalancerSnapshot(vaultId: string, timestamp: i32): BalancerSn
   if (snapshot == null) {
     let dayStartTimestamp = dayID * 86400;
     snapshot = new BalancerSnapshot(id);
-    // we know that the vault should be created by this call
-    let vault = Balancer.load('2') as Balancer;
     snapshot.poolCount = vault.poolCount;
 
     snapshot.totalLiquidity = vault.totalLiquidity;
@@ -445,12 +1010,77 @@ export function getBalancerSnapshot(vaultId: string, timestamp: i32): BalancerSn
     snapshot.totalProtocolFee = vault.totalProtocolFee;
     snapshot.vault = vaultId;
     snapshot.timestamp = dayStartTimestamp;
-    snapshot.save();
   }
 
+  snapshot.totalSwapProtocolFee = vault.totalSwapProtocolFee;
+  snapshot.totalYieldProtocolFee = vault.totalYieldProtocolFee;
+  snapshot.totalAumProtocolFee = vault.totalAumProtocolFee;
+  snapshot.totalFlashLoanProtocolFee = vault.totalFlashLoanProtocolFee;
+  snapshot.save();
+
   return snapshot;
 }
 
+// Adds a USD protocol fee to the pool's bucket for its ProtocolFeeType.
+// The caller is responsible for saving the pool.
+export function addPoolProtocolFee(pool: Pool, feeType: i32, amountUSD: BigDecimal): void {
+  if (feeType == ProtocolFeeType.Swap) {
+    let totalSwapProtocolFee = pool.totalSwapProtocolFee ? pool.totalSwapProtocolFee : ZERO_BD;
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    pool.totalSwapProtocolFee = totalSwapProtocolFee!.plus(amountUSD);
+  } else if (feeType == ProtocolFeeType.Yield) {
+    let totalYieldProtocolFee = pool.totalYieldProtocolFee ? pool.totalYieldProtocolFee : ZERO_BD;
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    pool.totalYieldProtocolFee = totalYieldProtocolFee!.plus(amountUSD);
+  } else if (feeType == ProtocolFeeType.Aum) {
+    let totalAumProtocolFee = pool.totalAumProtocolFee ? pool.totalAumProtocolFee : ZERO_BD;
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    pool.totalAumProtocolFee = totalAumProtocolFee!.plus(amountUSD);
+  }
+}
+
+// Adds a USD protocol fee to the vault's bucket for its ProtocolFeeType.
+// The caller is responsible for saving the vault.
+export function addVaultProtocolFee(vault: Balancer, feeType: i32, amountUSD: BigDecimal): void {
+  if (feeType == ProtocolFeeType.Swap) {
+    let totalSwapProtocolFee = vault.totalSwapProtocolFee ? vault.totalSwapProtocolFee : ZERO_BD;
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    vault.totalSwapProtocolFee = totalSwapProtocolFee!.plus(amountUSD);
+  } else if (feeType == ProtocolFeeType.Yield) {
+    let totalYieldProtocolFee = vault.totalYieldProtocolFee ? vault.totalYieldProtocolFee : ZERO_BD;
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    vault.totalYieldProtocolFee = totalYieldProtocolFee!.plus(amountUSD);
+  } else if (feeType == ProtocolFeeType.Aum) {
+    let totalAumProtocolFee = vault.totalAumProtocolFee ? vault.totalAumProtocolFee : ZERO_BD;
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    vault.totalAumProtocolFee = totalAumProtocolFee!.plus(amountUSD);
+  } else if (feeType == ProtocolFeeType.FlashLoan) {
+    let totalFlashLoanProtocolFee = vault.totalFlashLoanProtocolFee ? vault.totalFlashLoanProtocolFee : ZERO_BD;
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    vault.totalFlashLoanProtocolFee = totalFlashLoanProtocolFee!.plus(amountUSD);
+  }
+}
+
+function updateBalancerHourlySnapshot(vault: Balancer, timestamp: i32): void {
+  let hourID = timestamp / HOUR;
+  let id = vault.id + '-' + hourID.toString();
+  let snapshot = BalancerHourlySnapshot.load(id);
+
+  if (snapshot == null) {
+    snapshot = new BalancerHourlySnapshot(id);
+    snapshot.vault = vault.id;
+    snapshot.timestamp = hourID * HOUR;
+  }
+
+  snapshot.poolCount = vault.poolCount;
+  snapshot.totalLiquidity = vault.totalLiquidity;
+  snapshot.totalSwapFee = vault.totalSwapFee;
+  snapshot.totalSwapVolume = vault.totalSwapVolume;
+  snapshot.totalSwapCount = vault.totalSwapCount;
+  snapshot.totalProtocolFee = vault.totalProtocolFee;
+  snapshot.save();
+}
+
 export function computeCuratedSwapEnabled(
   isPaused: boolean,
   swapEnabledCurationSignal: boolean,
@@ -60,6 +60,20 @@ export const poolTypes = [
   PoolType.FX,
 ];
 
+// eslint-disable-next-line @typescript-eslint/no-namespace
+export namespace PoolSpecialization {
+  export const General = 'General';
+  export const MinimalSwapInfo = 'MinimalSwapInfo';
+  export const TwoToken = 'TwoToken';
+}
+
+// ordered as in the Vault's PoolSpecialization enum
+export const poolSpecializations = [
+  PoolSpecialization.General,
+  PoolSpecialization.MinimalSwapInfo,
+  PoolSpecialization.TwoToken,
+];
+
 export function isVariableWeightPool(pool: Pool): boolean {
   return (
     pool.poolType == PoolType.LiquidityBootstrapping ||
@@ -114,6 +128,10 @@ export function isStableLikePool(pool: Pool): boolean {
   );
 }
 
+export function isGyroPool(pool: Pool): boolean {
+  return pool.poolType == PoolType.Gyro2 || pool.poolType == PoolType.Gyro3 || pool.poolType == PoolType.GyroE;
+}
+
 export function isFXPool(pool: Pool): boolean {
   return pool.poolType == PoolType.FX;
 }
@@ -142,6 +160,11 @@ export function getPoolAddress(poolId: string): Address {
   return changetype<Address>(Address.fromHexString(poolId.slice(0, 42)));
 }
 
+// the specialization is encoded in bytes 20-21 of the poolId
+export function getPoolIdSpecialization(poolId: string): i32 {
+  return i32(parseInt(poolId.slice(42, 46), 16));
+}
+
 export function getPoolTokens(poolId: Bytes): Bytes[] | null {
   let vaultContract = Vault.bind(VAULT_ADDRESS);
   let tokensCall = vaultContract.try_getPoolTokens(poolId);
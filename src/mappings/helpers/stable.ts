@@ -1,6 +1,7 @@
-import { Address, BigInt, log } from '@graphprotocol/graph-ts';
+import { Address, BigDecimal, BigInt, log } from '@graphprotocol/graph-ts';
 import { AmpUpdate, Pool } from '../../types/schema';
-import { ZERO, ONE } from './constants';
+import { ZERO, ONE, ZERO_BD } from './constants';
+import { loadPoolToken, scaleDown, scaleUp } from './misc';
 import { StablePool } from '../../types/templates/StablePool/StablePool';
 
 export const AMP_PRECISION = BigInt.fromI32(1000);
@@ -103,3 +104,64 @@ export function calculateInvariant(amp: BigInt, balances: BigInt[], swapId: stri
 
   return invariant;
 }
+
+// Returns the marginal price of `asset` in terms of `pricingAsset` given the pool's current balances,
+// i.e. the ratio of the partial derivatives of the StableSwap invariant with respect to each balance:
+// (A * n^n + D^(n+1) / (n^n * P * x_asset)) / (A * n^n + D^(n+1) / (n^n * P * x_pricingAsset))
+// Balances are scaled by their price rates so the result is converted back using those rates.
+// Returns zero if the price can't be computed.
+export function calculateSpotPrice(pool: Pool, asset: Address, pricingAsset: Address, swapId: string): BigDecimal {
+  let amp = pool.amp;
+  if (amp === null) return ZERO_BD;
+  if (amp.isZero()) return ZERO_BD;
+
+  let tokenAddresses = pool.tokensList;
+  let balances: BigInt[] = [];
+  let scaledBalances: BigDecimal[] = [];
+  let assetIndex = -1;
+  let pricingAssetIndex = -1;
+  let assetRate = ZERO_BD;
+  let pricingAssetRate = ZERO_BD;
+
+  for (let i: i32 = 0; i < tokenAddresses.length; i++) {
+    // BPT is not part of the invariant of pools with preminted BPT
+    if (tokenAddresses[i] == pool.address) continue;
+
+    let tokenAddress = Address.fromString(tokenAddresses[i].toHexString());
+    let poolToken = loadPoolToken(pool.id, tokenAddress);
+    if (poolToken == null) return ZERO_BD;
+
+    let scaledBalance = poolToken.balance.times(poolToken.priceRate);
+    if (scaledBalance.le(ZERO_BD)) return ZERO_BD;
+
+    if (tokenAddress == asset) {
+      assetIndex = scaledBalances.length;
+      assetRate = poolToken.priceRate;
+    } else if (tokenAddress == pricingAsset) {
+      pricingAssetIndex = scaledBalances.length;
+      pricingAssetRate = poolToken.priceRate;
+    }
+
+    scaledBalances.push(scaledBalance);
+    balances.push(scaleUp(scaledBalance, 18));
+  }
+
+  if (assetIndex < 0 || pricingAssetIndex < 0) return ZERO_BD;
+
+  let invariant = scaleDown(calculateInvariant(amp.times(AMP_PRECISION), balances, swapId), 18);
+  if (invariant.equals(ZERO_BD)) return ZERO_BD;
+
+  let numTokens = BigInt.fromI32(scaledBalances.length).toBigDecimal();
+  let ampTimesTotal = amp.toBigDecimal().times(numTokens);
+
+  // D^(n+1) / (n^n * P)
+  let D_P = invariant;
+  for (let j: i32 = 0; j < scaledBalances.length; j++) {
+    D_P = D_P.times(invariant).div(scaledBalances[j].times(numTokens));
+  }
+
+  let assetDerivative = ampTimesTotal.plus(D_P.div(scaledBalances[assetIndex]));
+  let pricingAssetDerivative = ampTimesTotal.plus(D_P.div(scaledBalances[pricingAssetIndex]));
+
+  return assetDerivative.div(pricingAssetDerivative).times(assetRate).div(pricingAssetRate);
+}
@@ -1,12 +1,14 @@
-import { Address, Bytes } from '@graphprotocol/graph-ts';
+import { Address, BigInt, Bytes } from '@graphprotocol/graph-ts';
 
-import { Pool } from '../../types/schema';
+import { GradualWeightUpdate, Pool } from '../../types/schema';
 import { WeightedPool } from '../../types/templates/WeightedPool/WeightedPool';
 
 import { ZERO_BD } from './constants';
 import { scaleDown, loadPoolToken } from './misc';
 
-export function updatePoolWeights(poolId: string): void {
+// Weights are interpolated along the pool's latest GradualWeightUpdate when it has one,
+// and only read from the pool contract otherwise
+export function updatePoolWeights(poolId: string, blockTimestamp: BigInt): void {
   let pool = Pool.load(poolId);
   if (pool == null) return;
 
@@ -21,10 +23,20 @@ export function updatePoolWeights(poolId: string): void {
     }
   }
 
-  let weightsCall = poolContract.try_getNormalizedWeights();
-  if (!weightsCall.reverted) {
-    let weights = weightsCall.value;
+  let weights: BigInt[] | null = null;
+  let latestWeightUpdateId = pool.latestWeightUpdate;
+  if (latestWeightUpdateId !== null) {
+    let latestWeightUpdate = GradualWeightUpdate.load(latestWeightUpdateId);
+    if (latestWeightUpdate != null) {
+      weights = calculateWeights(latestWeightUpdate, blockTimestamp);
+    }
+  }
+  if (weights === null || weights.length != tokensList.length) {
+    let weightsCall = poolContract.try_getNormalizedWeights();
+    weights = weightsCall.reverted ? null : weightsCall.value;
+  }
 
+  if (weights !== null) {
     if (weights.length == tokensList.length) {
       let totalWeight = ZERO_BD;
 
@@ -47,3 +59,23 @@ export function updatePoolWeights(poolId: string): void {
 
   pool.save();
 }
+
+function calculateWeights(latestWeightUpdate: GradualWeightUpdate, blockTimestamp: BigInt): BigInt[] {
+  let startWeights = latestWeightUpdate.startWeights;
+  let endWeights = latestWeightUpdate.endWeights;
+  let startTime = latestWeightUpdate.startTimestamp;
+  let endTime = latestWeightUpdate.endTimestamp;
+
+  if (blockTimestamp.ge(endTime)) return endWeights;
+  // the start weights apply from the moment the update is scheduled
+  if (blockTimestamp.le(startTime)) return startWeights;
+
+  const duration = endTime.minus(startTime);
+  const elapsedTime = blockTimestamp.minus(startTime);
+  let weights = new Array<BigInt>();
+  for (let i = 0; i < startWeights.length; i++) {
+    let change = endWeights[i].minus(startWeights[i]).times(elapsedTime).div(duration);
+    weights.push(startWeights[i].plus(change));
+  }
+  return weights;
+}
@@ -1,4 +1,4 @@
-import { Address, BigDecimal, BigInt, Bytes, log, store } from '@graphprotocol/graph-ts';
+import { Address, BigDecimal, BigInt, Bytes, ethereum, log, store } from '@graphprotocol/graph-ts';
 import { OracleEnabledChanged } from '../types/templates/WeightedPool2Tokens/WeightedPool2Tokens';
 import { PausedStateChanged, SwapFeePercentageChanged } from '../types/templates/WeightedPool/WeightedPool';
 import {
@@ -39,6 +39,10 @@ import {
   PoolContract,
   Balancer,
   PoolToken,
+  Token,
+  UserPosition,
+  PoolShareChange,
+  PriceRateUpdate,
 } from '../types/schema';
 
 import {
@@ -48,6 +52,8 @@ import {
   getPoolTokenId,
   loadPriceRateProvider,
   getPoolShare,
+  updateTopHolders,
+  updateHolderConcentration,
   computeCuratedSwapEnabled,
   createPoolTokenEntity,
   bytesToAddress,
@@ -55,10 +61,24 @@ import {
   createPoolSnapshot,
   hexToBigInt,
   getBalancerSnapshot,
+  updatePoolShareSnapshot,
+  updateTokenRateSnapshot,
+  addPoolProtocolFee,
+  addVaultProtocolFee,
+  updateSwapFee,
 } from './helpers/misc';
-import { ONE_BD, ProtocolFeeType, ZERO_ADDRESS, ZERO_BD } from './helpers/constants';
+import {
+  ONE_BD,
+  PoolShareChangeKind,
+  ProtocolFeeType,
+  VAULT_ADDRESS,
+  ZERO_ADDRESS,
+  ZERO_BD,
+} from './helpers/constants';
 import { updateAmpFactor } from './helpers/stable';
-import { getPoolTokenManager, getPoolTokens } from './helpers/pools';
+import { updatePoolWeights } from './helpers/weighted';
+import { updateFXCurveState } from './helpers/fx';
+import { getPoolTokenManager, getPoolTokens, hasVirtualSupply } from './helpers/pools';
 import {
   ProtocolFeePercentageCacheUpdated,
   RecoveryModeStateChanged,
@@ -102,6 +122,15 @@ export function handleManagementAumFeeCollected(event: ManagementAumFeeCollected
   let totalCollected = pool.totalAumFeeCollectedInBPT ? pool.totalAumFeeCollectedInBPT : ZERO_BD;
   // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
   pool.totalAumFeeCollectedInBPT = totalCollected!.plus(bptCollected);
+
+  // the protocol's cut of the AUM fee is minted to the fees collector along with its other fees
+  let protocolAumFeeCache = pool.protocolAumFeeCache;
+  if (protocolAumFeeCache !== null) {
+    let protocolAumFeeUSD = valueInUSD(bptCollected.times(protocolAumFeeCache), poolAddress);
+    let pendingAumProtocolFee = pool.pendingAumProtocolFee ? pool.pendingAumProtocolFee : ZERO_BD;
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    pool.pendingAumProtocolFee = pendingAumProtocolFee!.plus(protocolAumFeeUSD);
+  }
   pool.save();
 }
 
@@ -138,6 +167,8 @@ export function handleTokenAdded(event: TokenAdded): void {
   let tokens = getPoolTokens(poolIdBytes);
   if (tokens == null) return;
   pool.tokensList = tokens;
+  // the weights are rescaled outside of any scheduled update, so they have to be read from the pool again
+  pool.latestWeightUpdate = null;
   pool.save();
 
   let tokenAdded = event.params.token;
@@ -161,6 +192,8 @@ export function handleTokenRemoved(event: TokenRemoved): void {
   let tokens = getPoolTokens(poolIdBytes);
   if (tokens == null) return;
   pool.tokensList = tokens;
+  // the weights are rescaled outside of any scheduled update, so they have to be read from the pool again
+  pool.latestWeightUpdate = null;
   pool.save();
 
   for (let i: i32 = 0; i < pool.tokensList.length; i++) {
@@ -333,6 +366,14 @@ export function handleGradualWeightUpdateScheduled(event: GradualWeightUpdateSch
   weightUpdate.startWeights = event.params.startWeights;
   weightUpdate.endWeights = event.params.endWeights;
   weightUpdate.save();
+
+  let pool = Pool.load(poolContract.pool);
+  if (pool == null) return;
+
+  pool.latestWeightUpdate = weightUpdate.id;
+  pool.save();
+
+  updatePoolWeights(pool.id, event.block.timestamp);
 }
 
 /************************************
@@ -437,6 +478,9 @@ export function handleGradualSwapFeeUpdateScheduled(event: GradualSwapFeeUpdateS
     startSwapFee,
     endSwapFee
   );
+
+  updateSwapFee(pool, event.block.timestamp);
+  pool.save();
 }
 
 export function createSwapFeeUpdate(
@@ -456,6 +500,9 @@ export function createSwapFeeUpdate(
   swapFeeUpdate.startSwapFeePercentage = _startSwapFeePercentage;
   swapFeeUpdate.endSwapFeePercentage = _endSwapFeePercentage;
   swapFeeUpdate.save();
+
+  _pool.latestSwapFeeUpdate = swapFeeUpdate.id;
+  _pool.save();
 }
 
 /************************************
@@ -568,7 +615,7 @@ export function handlePriceRateCacheUpdated(event: PriceRateCacheUpdated): void
   let poolContract = PoolContract.load(poolAddress.toHexString());
   if (poolContract == null) return;
 
-  setPriceRateCache(poolContract.pool, event.params.token, event.params.rate, event.block.timestamp.toI32());
+  setPriceRateCache(poolContract.pool, event.params.token, event.params.rate, event);
 }
 
 export function handleTokenRateCacheUpdated(event: TokenRateCacheUpdated): void {
@@ -582,10 +629,11 @@ export function handleTokenRateCacheUpdated(event: TokenRateCacheUpdated): void
   let token = pool.tokensList[event.params.tokenIndex.toI32()];
   let tokenAddress = Address.fromString(token.toHexString());
 
-  setPriceRateCache(poolContract.pool, tokenAddress, event.params.rate, event.block.timestamp.toI32());
+  setPriceRateCache(poolContract.pool, tokenAddress, event.params.rate, event);
 }
 
-export function setPriceRateCache(poolId: string, tokenAddress: Address, rate: BigInt, blockTimestamp: i32): void {
+export function setPriceRateCache(poolId: string, tokenAddress: Address, rate: BigInt, event: ethereum.Event): void {
+  let blockTimestamp = event.block.timestamp.toI32();
   let rateScaled = scaleDown(rate, 18);
   let provider = loadPriceRateProvider(poolId, tokenAddress);
   if (provider == null) {
@@ -601,9 +649,22 @@ export function setPriceRateCache(poolId: string, tokenAddress: Address, rate: B
   // Attach the rate onto the PoolToken entity
   let poolToken = loadPoolToken(poolId, tokenAddress);
   if (poolToken == null) return;
-  poolToken.oldPriceRate = poolToken.priceRate;
+  let previousRate = poolToken.priceRate;
+  poolToken.oldPriceRate = previousRate;
   poolToken.priceRate = rateScaled;
+  poolToken.yieldAPR = updateTokenRateSnapshot(tokenAddress, rateScaled, blockTimestamp);
   poolToken.save();
+
+  let priceRateUpdate = new PriceRateUpdate(event.transaction.hash.toHexString().concat(event.logIndex.toString()));
+  priceRateUpdate.poolId = poolId;
+  priceRateUpdate.poolToken = poolToken.id;
+  priceRateUpdate.token = tokenAddress.toHexString();
+  priceRateUpdate.rate = rateScaled;
+  priceRateUpdate.previousRate = previousRate;
+  priceRateUpdate.timestamp = blockTimestamp;
+  priceRateUpdate.block = event.block.number;
+  priceRateUpdate.tx = event.transaction.hash;
+  priceRateUpdate.save();
 }
 
 /************************************
@@ -611,6 +672,15 @@ export function setPriceRateCache(poolId: string, tokenAddress: Address, rate: B
  ************************************/
 
 export function handleTransfer(event: Transfer): void {
+  transferPoolShares(event, false);
+}
+
+// BPT moved in or out of a user's internal balance, mocked as a transfer to keep PoolShare balances in sync
+export function handleInternalBalanceTransfer(event: Transfer): void {
+  transferPoolShares(event, true);
+}
+
+function transferPoolShares(event: Transfer, isInternalBalanceMove: boolean): void {
   let poolAddress = event.address;
   let poolContract = PoolContract.load(poolAddress.toHexString());
   if (poolContract == null) return;
@@ -654,6 +724,10 @@ export function handleTransfer(event: Transfer): void {
       let totalProtocolFeeUSD = pool.totalProtocolFee ? pool.totalProtocolFee : ZERO_BD;
       // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
       pool.totalProtocolFee = totalProtocolFeeUSD!.plus(protocolFeeUSD);
+      let protocolFeeSplit = splitMintedProtocolFee(pool, protocolFeeUSD);
+      addPoolProtocolFee(pool, ProtocolFeeType.Aum, protocolFeeSplit[ProtocolFeeType.Aum]);
+      addPoolProtocolFee(pool, ProtocolFeeType.Swap, protocolFeeSplit[ProtocolFeeType.Swap]);
+      addPoolProtocolFee(pool, ProtocolFeeType.Yield, protocolFeeSplit[ProtocolFeeType.Yield]);
 
       // create or update pool's snapshot
       createPoolSnapshot(pool, event.block.timestamp.toI32());
@@ -662,6 +736,9 @@ export function handleTransfer(event: Transfer): void {
       let vaultProtocolFee = vault.totalProtocolFee ? vault.totalProtocolFee : ZERO_BD;
       // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
       vault.totalProtocolFee = vaultProtocolFee!.plus(protocolFeeUSD);
+      addVaultProtocolFee(vault, ProtocolFeeType.Aum, protocolFeeSplit[ProtocolFeeType.Aum]);
+      addVaultProtocolFee(vault, ProtocolFeeType.Swap, protocolFeeSplit[ProtocolFeeType.Swap]);
+      addVaultProtocolFee(vault, ProtocolFeeType.Yield, protocolFeeSplit[ProtocolFeeType.Yield]);
       vault.save();
       // create or update balancer's vault snapshot
       getBalancerSnapshot(vault.id, event.block.timestamp.toI32());
@@ -686,7 +763,135 @@ export function handleTransfer(event: Transfer): void {
     pool.holdersCount = pool.holdersCount.minus(BigInt.fromI32(1));
   }
 
+  if (!isMint) {
+    updateTopHolders(pool, poolShareFrom, poolShareFromBalance);
+  }
+  if (!isBurn) {
+    updateTopHolders(pool, poolShareTo, poolShareToBalance);
+  }
+  updateHolderConcentration(pool);
+
   pool.save();
+
+  let blockTimestamp = event.block.timestamp.toI32();
+  if (!isMint) {
+    updatePoolShareSnapshot(poolShareFrom, blockTimestamp);
+  }
+  if (!isBurn) {
+    updatePoolShareSnapshot(poolShareTo, blockTimestamp);
+  }
+
+  // pools with virtual supply are joined and exited by swapping their BPT with the Vault,
+  // which sends and receives the BPT instead of minting and burning it. The Vault emits the Swap first,
+  // so these are valued at the BPT price the swap has just updated
+  let isJoinExitSwap = !isInternalBalanceMove && hasVirtualSupply(pool);
+  let isVirtualMint = isJoinExitSwap && event.params.from == VAULT_ADDRESS;
+  let isVirtualBurn = isJoinExitSwap && event.params.to == VAULT_ADDRESS;
+
+  let amount = tokenToDecimal(event.params.value, BPT_DECIMALS);
+  if (!isMint) {
+    let kind = isBurn || isVirtualBurn ? PoolShareChangeKind.Burn : PoolShareChangeKind.TransferOut;
+    updateUserPosition(
+      pool,
+      event.params.from,
+      event.params.to,
+      kind,
+      amount,
+      poolShareFromBalance,
+      isInternalBalanceMove,
+      event
+    );
+  }
+  if (!isBurn) {
+    let kind = isMint || isVirtualMint ? PoolShareChangeKind.Mint : PoolShareChangeKind.TransferIn;
+    updateUserPosition(
+      pool,
+      event.params.to,
+      event.params.from,
+      kind,
+      amount,
+      poolShareToBalance,
+      isInternalBalanceMove,
+      event
+    );
+  }
+}
+
+function updateUserPosition(
+  pool: Pool,
+  user: Address,
+  counterparty: Address,
+  kind: string,
+  amount: BigDecimal,
+  previousBalance: BigDecimal,
+  isInternalBalanceMove: boolean,
+  event: Transfer
+): void {
+  // The Vault holds the preminted BPT of pools with virtual supply, it isn't a liquidity provider
+  if (user == VAULT_ADDRESS) return;
+
+  let bptPrice = ZERO_BD;
+  let bpt = Token.load(pool.address.toHexString());
+  if (bpt != null && bpt.latestUSDPrice) {
+    bptPrice = bpt.latestUSDPrice as BigDecimal;
+  }
+
+  let positionId = pool.id.concat('-').concat(user.toHexString());
+  let position = UserPosition.load(positionId);
+  if (position == null) {
+    position = new UserPosition(positionId);
+    position.user = user.toHexString();
+    position.pool = pool.id;
+    // BPT held before positions were tracked is assumed to have been acquired at the current price
+    position.balance = previousBalance;
+    position.depositedUSD = previousBalance.times(bptPrice);
+    position.withdrawnUSD = ZERO_BD;
+    position.averageEntryPrice = bptPrice;
+    position.realizedPnL = ZERO_BD;
+  }
+
+  let valueUSD = amount.times(bptPrice);
+  let isInflow = kind == PoolShareChangeKind.Mint || kind == PoolShareChangeKind.TransferIn;
+  let realizedPnL = ZERO_BD;
+
+  if (isInternalBalanceMove) {
+    // BPT moved in or out of internal balance stays the user's, so it is carried at the position's
+    // entry price and neither realizes PnL nor resets the cost basis
+    position.balance = isInflow ? position.balance.plus(amount) : position.balance.minus(amount);
+  } else if (isInflow) {
+    let newBalance = position.balance.plus(amount);
+    if (newBalance.gt(ZERO_BD)) {
+      let costBasis = position.balance.times(position.averageEntryPrice).plus(valueUSD);
+      position.averageEntryPrice = costBasis.div(newBalance);
+    }
+    position.balance = newBalance;
+    position.depositedUSD = position.depositedUSD.plus(valueUSD);
+  } else {
+    realizedPnL = amount.times(bptPrice.minus(position.averageEntryPrice));
+    position.balance = position.balance.minus(amount);
+    position.withdrawnUSD = position.withdrawnUSD.plus(valueUSD);
+    position.realizedPnL = position.realizedPnL.plus(realizedPnL);
+  }
+  position.save();
+
+  let direction = isInflow ? '-in' : '-out';
+  let change = new PoolShareChange(
+    event.transaction.hash.toHexString().concat(event.logIndex.toString()).concat(direction)
+  );
+  change.kind = kind;
+  change.user = user.toHexString();
+  change.pool = pool.id;
+  change.position = positionId;
+  change.counterparty = counterparty;
+  change.amount = amount;
+  change.bptPrice = bptPrice;
+  change.valueUSD = valueUSD;
+  change.balance = position.balance;
+  change.realizedPnL = realizedPnL;
+  change.timestamp = event.block.timestamp.toI32();
+  change.tx = event.transaction.hash;
+  change.block = event.block.number;
+  change.save();
 }
 
 /************************************
@@ -704,5 +909,52 @@ export function handleParametersSet(event: ParametersSet): void {
   pool.delta = scaleDown(event.params.delta, 18);
   pool.epsilon = scaleDown(event.params.epsilon, 18);
   pool.lambda = scaleDown(event.params.lambda, 18);
+  updateFXCurveState(pool);
   pool.save();
 }
+
+// BPT minted to the fees collector pays for all the protocol fees accrued since the last mint.
+// The AUM and swap fees accrued in the meantime are attributed first, and the rest to yield when
+// the pool holds a rate-provided token that pays yield fees, or to swaps otherwise.
+// Returns the USD amounts indexed by ProtocolFeeType.
+function splitMintedProtocolFee(pool: Pool, protocolFeeUSD: BigDecimal): BigDecimal[] {
+  let split = [ZERO_BD, ZERO_BD, ZERO_BD, ZERO_BD];
+  let remaining = protocolFeeUSD;
+
+  let pendingAumProtocolFee = pool.pendingAumProtocolFee ? pool.pendingAumProtocolFee : ZERO_BD;
+  // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+  let aumFee = pendingAumProtocolFee!.lt(remaining) ? pendingAumProtocolFee! : remaining;
+  split[ProtocolFeeType.Aum] = aumFee;
+  remaining = remaining.minus(aumFee);
+
+  let pendingSwapProtocolFee = pool.pendingSwapProtocolFee ? pool.pendingSwapProtocolFee : ZERO_BD;
+  // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+  let swapFee = pendingSwapProtocolFee!.lt(remaining) ? pendingSwapProtocolFee! : remaining;
+  remaining = remaining.minus(swapFee);
+  if (hasYieldFeeToken(pool)) {
+    split[ProtocolFeeType.Swap] = swapFee;
+    split[ProtocolFeeType.Yield] = remaining;
+  } else {
+    split[ProtocolFeeType.Swap] = swapFee.plus(remaining);
+  }
+
+  pool.pendingAumProtocolFee = ZERO_BD;
+  pool.pendingSwapProtocolFee = ZERO_BD;
+
+  return split;
+}
+
+function hasYieldFeeToken(pool: Pool): boolean {
+  let tokens = pool.tokensList;
+  for (let i: i32 = 0; i < tokens.length; i++) {
+    if (tokens[i] == pool.address) continue;
+
+    let tokenAddress = bytesToAddress(tokens[i]);
+    let provider = loadPriceRateProvider(pool.id, tokenAddress);
+    if (provider == null || provider.address == ZERO_ADDRESS) continue;
+
+    let poolToken = loadPoolToken(pool.id, tokenAddress);
+    if (poolToken != null && !poolToken.isExemptFromYieldProtocolFee) return true;
+  }
+  return false;
+}
@@ -1,5 +1,6 @@
 import { ZERO_BD, ZERO, FX_ASSET_AGGREGATORS, VAULT_ADDRESS, ZERO_ADDRESS, ProtocolFeeType } from './helpers/constants';
 import {
+  getPoolIdSpecialization,
   getPoolTokenManager,
   getPoolTokens,
   isManagedPool,
@@ -9,25 +10,24 @@ import {
 } from './helpers/pools';
 
 import {
-  newPoolEntity,
   createPoolTokenEntity,
+  getPoolTokenId,
   scaleDown,
-  getBalancerSnapshot,
   tokenToDecimal,
   stringToBytes,
   bytesToAddress,
-  getProtocolFeeCollector,
-  getToken,
   getFXOracle,
+  createPoolEntity,
 } from './helpers/misc';
 import { updatePoolWeights } from './helpers/weighted';
+import { setGyroPriceRange } from './helpers/gyro';
 
 import { BigInt, Address, Bytes, ethereum, log } from '@graphprotocol/graph-ts';
 
 import { PoolCreated } from '../types/WeightedPoolFactory/WeightedPoolFactory';
 import { AaveLinearPoolCreated } from '../types/AaveLinearPoolV3Factory/AaveLinearPoolV3Factory';
 import { ProtocolIdRegistered } from '../types/ProtocolIdRegistry/ProtocolIdRegistry';
-import { Balancer, Pool, PoolContract, ProtocolIdData } from '../types/schema';
+import { Pool, PoolContract, PoolToken, ProtocolIdData } from '../types/schema';
 import { KassandraPoolCreated } from '../types/ManagedKassandraPoolControllerFactory/ManagedKassandraPoolControllerFactory';
 import { NewFXPoolDeployer } from '../types/FXPoolDeployerTracker/FXPoolDeployerTracker';
 
@@ -85,7 +85,7 @@ function createWeightedLikePool(event: PoolCreated, poolType: string, poolTypeVe
   pool.poolTypeVersion = poolTypeVersion;
   pool.owner = owner;
 
-  let tokens = getPoolTokens(poolId);
+  let tokens = getRegisteredPoolTokens(pool, poolId);
   if (tokens == null) return null;
   pool.tokensList = tokens;
 
@@ -112,7 +112,7 @@ function createWeightedLikePool(event: PoolCreated, poolType: string, poolTypeVe
   handleNewPoolTokens(pool, tokens);
 
   // Load pool with initial weights
-  updatePoolWeights(poolId.toHexString());
+  updatePoolWeights(poolId.toHexString(), event.block.timestamp);
 
   // Create PriceRateProvider entities for WeightedPoolV2+
   if (poolType == PoolType.Weighted && poolTypeVersion >= 2) {
@@ -194,7 +194,7 @@ function createStableLikePool(event: PoolCreated, poolType: string, poolTypeVers
   pool.poolTypeVersion = poolTypeVersion;
   pool.owner = owner;
 
-  let tokens = getPoolTokens(poolId);
+  let tokens = getRegisteredPoolTokens(pool, poolId);
   if (tokens == null) return null;
   pool.tokensList = tokens;
 
@@ -320,7 +320,7 @@ export function handleNewCCPPool(event: PoolCreated): void {
   pool.expiryTime = expiryTime;
   pool.unitSeconds = unitSeconds;
 
-  let tokens = getPoolTokens(poolId);
+  let tokens = getRegisteredPoolTokens(pool, poolId);
   if (tokens == null) return;
   pool.tokensList = tokens;
 
@@ -456,7 +456,7 @@ function handleNewLinearPool(event: PoolCreated, poolType: string, poolTypeVersi
   pool.lowerTarget = tokenToDecimal(targetsCall.value.value0, 18);
   pool.upperTarget = tokenToDecimal(targetsCall.value.value1, 18);
 
-  let tokens = getPoolTokens(poolId);
+  let tokens = getRegisteredPoolTokens(pool, poolId);
   if (tokens == null) return;
   pool.tokensList = tokens;
 
@@ -510,8 +510,9 @@ function createGyro2Pool(event: PoolCreated, poolTypeVersion: i32 = 1): void {
   let sqrtParamsCall = poolContract.try_getSqrtParameters();
   pool.sqrtAlpha = scaleDown(sqrtParamsCall.value[0], 18);
   pool.sqrtBeta = scaleDown(sqrtParamsCall.value[1], 18);
+  setGyroPriceRange(pool);
 
-  let tokens = getPoolTokens(poolId);
+  let tokens = getRegisteredPoolTokens(pool, poolId);
   if (tokens == null) return;
   pool.tokensList = tokens;
 
@@ -563,8 +564,9 @@ export function handleNewGyro3Pool(event: PoolCreated): void {
   if (!root3AlphaCall.reverted) {
     pool.root3Alpha = scaleDown(root3AlphaCall.value, 18);
   }
+  setGyroPriceRange(pool);
 
-  let tokens = getPoolTokens(poolId);
+  let tokens = getRegisteredPoolTokens(pool, poolId);
   if (tokens == null) return;
   pool.tokensList = tokens;
 
@@ -611,8 +613,9 @@ function createGyroEPool(event: PoolCreated, poolTypeVersion: i32 = 1): void {
     pool.z = scaleDown(derived.z, 38);
     pool.dSq = scaleDown(derived.dSq, 38);
   }
+  setGyroPriceRange(pool);
 
-  let tokens = getPoolTokens(poolId);
+  let tokens = getRegisteredPoolTokens(pool, poolId);
   if (tokens == null) return;
   pool.tokensList = tokens;
 
@@ -684,7 +687,7 @@ function handleNewFXPool(event: ethereum.Event, permissionless: boolean): void {
 
   pool.poolType = PoolType.FX;
 
-  let tokens = getPoolTokens(poolId);
+  let tokens = getRegisteredPoolTokens(pool, poolId);
   if (tokens == null) return;
   pool.tokensList = tokens;
 
@@ -765,73 +768,37 @@ function handleNewFXPool(event: ethereum.Event, permissionless: boolean): void {
   }
 }
 
-function findOrInitializeVault(): Balancer {
-  let vault: Balancer | null = Balancer.load('2');
-  if (vault != null) return vault;
-
-  // if no vault yet, set up blank initial
-  vault = new Balancer('2');
-  vault.poolCount = 0;
-  vault.totalLiquidity = ZERO_BD;
-  vault.totalSwapVolume = ZERO_BD;
-  vault.totalSwapFee = ZERO_BD;
-  vault.totalSwapCount = ZERO;
-
-  // set up protocol fees collector
-  vault.protocolFeesCollector = getProtocolFeeCollector();
-
-  return vault;
-}
-
 function handleNewPool(event: PoolCreated, poolId: Bytes, swapFee: BigInt): Pool {
   let poolAddress: Address = event.params.pool;
 
+  // Pools register themselves with the Vault on construction, so by the time the factory
+  // emits PoolCreated the pool has usually been created by handlePoolRegistered already
   let pool = Pool.load(poolId.toHexString());
   if (pool == null) {
-    pool = newPoolEntity(poolId.toHexString());
-
-    pool.swapFee = scaleDown(swapFee, 18);
-    pool.createTime = event.block.timestamp.toI32();
-    pool.address = poolAddress;
-    pool.factory = event.address;
-    pool.oracleEnabled = false;
-    pool.tx = event.transaction.hash;
-    pool.swapEnabled = true;
-    pool.swapEnabledInternal = true;
-    pool.isPaused = false;
-
-    let bpt = getToken(poolAddress);
-
-    pool.name = bpt.name;
-    pool.symbol = bpt.symbol;
-
-    pool.save();
-
-    let vault = findOrInitializeVault();
-    vault.poolCount += 1;
-    vault.save();
-
-    let vaultSnapshot = getBalancerSnapshot(vault.id, event.block.timestamp.toI32());
-    vaultSnapshot.poolCount += 1;
-    vaultSnapshot.save();
+    pool = createPoolEntity(poolId.toHexString(), poolAddress, getPoolIdSpecialization(poolId.toHexString()), event);
   }
 
-  let poolContract = PoolContract.load(poolAddress.toHexString());
-  if (poolContract == null) {
-    poolContract = new PoolContract(poolAddress.toHexString());
-    poolContract.pool = poolId.toHexString();
-    poolContract.save();
-  }
+  pool.swapFee = scaleDown(swapFee, 18);
+  pool.factory = event.address;
+  pool.save();
 
   return pool;
 }
 
+// pools usually have their tokens registered by the time the factory emits its event
+function getRegisteredPoolTokens(pool: Pool, poolId: Bytes): Bytes[] | null {
+  if (pool.tokensList.length > 0) return pool.tokensList;
+  return getPoolTokens(poolId);
+}
+
 function handleNewPoolTokens(pool: Pool, tokens: Bytes[]): void {
   let tokensAddresses = changetype<Address[]>(tokens);
 
   for (let i: i32 = 0; i < tokens.length; i++) {
+    let poolToken = PoolToken.load(getPoolTokenId(pool.id, tokensAddresses[i]));
     let poolId = stringToBytes(pool.id);
-    let assetManager = getPoolTokenManager(poolId, tokens[i]);
+    let assetManager =
+      poolToken != null ? Address.fromBytes(poolToken.assetManager) : getPoolTokenManager(poolId, tokens[i]);
 
     if (!assetManager) continue;
 
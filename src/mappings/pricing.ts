@@ -1,5 +1,16 @@
 import { Address, Bytes, BigInt, BigDecimal, log, dataSource } from '@graphprotocol/graph-ts';
-import { Pool, TokenPrice, Balancer, PoolHistoricalLiquidity, LatestPrice, Token, FXOracle } from '../types/schema';
+import {
+  Pool,
+  TokenPrice,
+  Balancer,
+  PoolHistoricalLiquidity,
+  LatestPrice,
+  Token,
+  FXOracle,
+  TokenCandle,
+  TokenPriceRoute,
+  RejectedPrice,
+} from '../types/schema';
 import {
   ZERO_BD,
   PRICING_ASSETS,
@@ -7,6 +18,10 @@ import {
   ONE_BD,
   ZERO_ADDRESS,
   MIN_POOL_LIQUIDITY,
+  MAX_PRICING_HOPS,
+  MAX_PRICE_EDGES,
+  PRICE_ROUTE_SEARCH_INTERVAL,
+  PriceSource,
 } from './helpers/constants';
 import { hasVirtualSupply, isComposableStablePool, isLinearPool, isFXPool, PoolType } from './helpers/pools';
 import {
@@ -21,11 +36,16 @@ import {
 import { AaveLinearPool } from '../types/AaveLinearPoolFactory/AaveLinearPool';
 import {
   FX_ASSET_AGGREGATORS,
+  ORACLE_AGGREGATORS,
+  MAX_ORACLE_PRICE_DEVIATION,
+  MAX_PRICE_AGE_FOR_ORACLE,
   MAX_POS_PRICE_CHANGE,
   MAX_NEG_PRICE_CHANGE,
   MAX_TIME_DIFF_FOR_PRICING,
 } from './helpers/constants';
 import { AnswerUpdated } from '../types/templates/OffchainAggregator/AccessControlledOffchainAggregator';
+import { ChainlinkPriceFeed } from '../types/FXPoolDeployer/ChainlinkPriceFeed';
+import { OffchainAggregator } from '../types/templates';
 export function isPricingAsset(asset: Address): boolean {
   for (let i: i32 = 0; i < PRICING_ASSETS.length; i++) {
     if (PRICING_ASSETS[i] == asset) return true;
@@ -72,7 +92,11 @@ export function addHistoricalPoolLiquidityRecord(poolId: string, block: BigInt,
     if (latestPrice) {
       // value in terms of priceableAsset
       price = latestPrice.price;
-    } else if (pool.poolType == PoolType.StablePhantom || isComposableStablePool(pool)) {
+    } else if (
+      pool.poolType == PoolType.StablePhantom ||
+      isComposableStablePool(pool) ||
+      getToken(tokenAddress).priceRoute !== null
+    ) {
       // try to estimate token price in terms of pricing asset
       let pricingAssetInUSD = valueInUSD(ONE_BD, pricingAsset);
       let currentTokenInUSD = valueInUSD(ONE_BD, tokenAddress);
@@ -176,7 +200,7 @@ export function updatePoolLiquidity(poolId: string, block_number: BigInt, timest
 
   // update BPT price
   if (newPoolLiquidity.gt(MIN_POOL_LIQUIDITY)) {
-    updateBptPrice(pool);
+    updateBptPrice(pool, block_number, timestamp);
   }
 
   // Create or update pool daily snapshot
@@ -225,15 +249,118 @@ export function valueInFX(value: BigDecimal, asset: Address): BigDecimal {
   }
 }
 
-export function updateBptPrice(pool: Pool): void {
+export function updateBptPrice(pool: Pool, block: BigInt, timestamp: BigInt): void {
   if (pool.totalShares.equals(ZERO_BD)) return;
 
   const bptAddress = Address.fromString(pool.address.toHexString());
   let bptToken = getToken(bptAddress);
-  bptToken.latestUSDPrice = pool.totalLiquidity.div(pool.totalShares);
+  let bptPrice = pool.totalLiquidity.div(pool.totalShares);
+  setTokenUSDPrice(bptToken, bptPrice, PriceSource.PoolLiquidity, pool.totalLiquidity, block, timestamp);
   bptToken.save();
 }
 
+// Sets the token's latestUSDPrice along with where it came from, so that consumers can judge how much to trust it.
+// The caller is responsible for saving the token.
+export function setTokenUSDPrice(
+  token: Token,
+  price: BigDecimal,
+  source: string,
+  liquidity: BigDecimal | null,
+  block: BigInt,
+  timestamp: BigInt
+): void {
+  token.latestUSDPrice = price;
+  token.latestUSDPriceTimestamp = timestamp;
+  token.latestUSDPriceBlock = block;
+  token.latestUSDPriceSource = source;
+  token.latestUSDPriceLiquidity = liquidity;
+  updateOraclePriceDeviation(token);
+}
+
+// Records the price reported by the token's oracle, which becomes its latestUSDPrice if the token
+// has no price yet or its price hasn't been updated for MAX_PRICE_AGE_FOR_ORACLE.
+// Otherwise the oracle price is only used to flag a latestUSDPrice that disagrees with it.
+// The caller is responsible for saving the token.
+function updateOracleUSDPrice(
+  token: Token,
+  oraclePrice: BigDecimal,
+  source: string,
+  block: BigInt,
+  timestamp: BigInt
+): void {
+  if (oraclePrice.le(ZERO_BD)) return;
+
+  token.oracleUSDPrice = oraclePrice;
+  token.oracleUSDPriceTimestamp = timestamp;
+
+  let latestUSDPrice = token.latestUSDPrice;
+  let latestUSDPriceTimestamp = token.latestUSDPriceTimestamp;
+  if (
+    !latestUSDPrice ||
+    latestUSDPrice.equals(ZERO_BD) ||
+    !latestUSDPriceTimestamp ||
+    timestamp.minus(latestUSDPriceTimestamp).gt(MAX_PRICE_AGE_FOR_ORACLE)
+  ) {
+    setTokenUSDPrice(token, oraclePrice, source, null, block, timestamp);
+    return;
+  }
+
+  updateOraclePriceDeviation(token);
+}
+
+function updateOraclePriceDeviation(token: Token): void {
+  let oraclePrice = token.oracleUSDPrice;
+  let latestUSDPrice = token.latestUSDPrice;
+  if (!oraclePrice || !latestUSDPrice) return;
+
+  let deviation = latestUSDPrice.minus(oraclePrice).div(oraclePrice);
+  token.oraclePriceDeviation = deviation;
+  token.oraclePriceDisagrees =
+    deviation.gt(MAX_ORACLE_PRICE_DEVIATION) || deviation.lt(MAX_ORACLE_PRICE_DEVIATION.neg());
+}
+
+// Starts tracking the aggregator behind the token's Chainlink feed, if it has one.
+// Feeds move to a new aggregator when they rotate phase, after which the previous one stops reporting,
+// so the feed is read again whenever the tracked aggregator hasn't reported for MAX_PRICE_AGE_FOR_ORACLE.
+export function updateOracleAggregator(tokenAddress: Address, timestamp: BigInt): void {
+  let feedIndex = -1;
+  for (let i = 0; i < ORACLE_AGGREGATORS.length; i++) {
+    if (ORACLE_AGGREGATORS[i][0] == tokenAddress) {
+      feedIndex = i;
+      break;
+    }
+  }
+  if (feedIndex < 0) return;
+
+  let token = Token.load(tokenAddress.toHexString());
+  if (token == null) return;
+
+  let aggregatorTimestamp = token.oracleAggregatorTimestamp;
+  if (aggregatorTimestamp) {
+    if (timestamp.minus(aggregatorTimestamp).le(MAX_PRICE_AGE_FOR_ORACLE)) return;
+    let oracleUSDPriceTimestamp = token.oracleUSDPriceTimestamp;
+    if (oracleUSDPriceTimestamp && timestamp.minus(oracleUSDPriceTimestamp).le(MAX_PRICE_AGE_FOR_ORACLE)) return;
+  }
+
+  token.oracleAggregatorTimestamp = timestamp;
+
+  let feed = ChainlinkPriceFeed.bind(ORACLE_AGGREGATORS[feedIndex][1]);
+  let aggregatorCall = feed.try_aggregator();
+  if (!aggregatorCall.reverted) {
+    let aggregator = aggregatorCall.value;
+    let currentAggregator = token.oracleAggregator;
+    if (!currentAggregator || !currentAggregator.equals(aggregator)) {
+      OffchainAggregator.create(aggregator);
+      token.oracleAggregator = aggregator;
+
+      let decimalsCall = feed.try_decimals();
+      token.oracleDecimals = decimalsCall.reverted ? 8 : decimalsCall.value;
+    }
+  }
+
+  token.save();
+}
+
 export function swapValueInUSD(
   tokenInAddress: Address,
   tokenAmountIn: BigDecimal,
@@ -278,7 +405,8 @@ export function getLatestPriceId(tokenAddress: Address, pricingAsset: Address):
   return tokenAddress.toHexString().concat('-').concat(pricingAsset.toHexString());
 }
 
-export function updateLatestPrice(tokenPrice: TokenPrice, blockTimestamp: BigInt): void {
+// Returns false when the price is rejected as an outlier
+export function updateLatestPrice(tokenPrice: TokenPrice, blockTimestamp: BigInt, source: string): boolean {
   let tokenAddress = Address.fromString(tokenPrice.asset.toHexString());
   let pricingAsset = Address.fromString(tokenPrice.pricingAsset.toHexString());
 
@@ -294,21 +422,28 @@ export function updateLatestPrice(tokenPrice: TokenPrice, blockTimestamp: BigInt
   latestPrice.block = tokenPrice.block;
   latestPrice.poolId = tokenPrice.poolId;
   latestPrice.price = tokenPrice.price;
+  let pool = Pool.load(tokenPrice.poolId);
+  let liquidity: BigDecimal | null = null;
+  if (pool) {
+    liquidity = pool.totalLiquidity;
+    latestPrice.liquidity = liquidity;
+  }
   latestPrice.save();
+  addPriceEdge(tokenAddress, latestPrice);
 
   let token = getToken(tokenAddress);
   const pricingAssetAddress = Address.fromString(tokenPrice.pricingAsset.toHexString());
   const currentUSDPrice = valueInUSD(tokenPrice.price, pricingAssetAddress);
 
-  if (currentUSDPrice == ZERO_BD) return;
+  if (currentUSDPrice == ZERO_BD) return true;
 
   let oldUSDPrice = token.latestUSDPrice;
   if (!oldUSDPrice || oldUSDPrice.equals(ZERO_BD)) {
-    token.latestUSDPriceTimestamp = blockTimestamp;
-    token.latestUSDPrice = currentUSDPrice;
+    setTokenUSDPrice(token, currentUSDPrice, source, liquidity, tokenPrice.block, blockTimestamp);
     token.latestPrice = latestPrice.id;
+    token.priceRoute = null;
     token.save();
-    return;
+    return true;
   }
 
   let change = currentUSDPrice.minus(oldUSDPrice).div(oldUSDPrice);
@@ -318,11 +453,344 @@ export function updateLatestPrice(tokenPrice: TokenPrice, blockTimestamp: BigInt
     // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
     blockTimestamp.minus(token.latestUSDPriceTimestamp!).gt(MAX_TIME_DIFF_FOR_PRICING)
   ) {
-    token.latestUSDPriceTimestamp = blockTimestamp;
-    token.latestUSDPrice = currentUSDPrice;
+    setTokenUSDPrice(token, currentUSDPrice, source, liquidity, tokenPrice.block, blockTimestamp);
     token.latestPrice = latestPrice.id;
+    token.priceRoute = null;
+    token.save();
+    return true;
+  }
+
+  addRejectedPrice(token, tokenPrice, currentUSDPrice, change, liquidity, blockTimestamp);
+  return false;
+}
+
+// Logs a price which was kept from the token's latestUSDPrice for moving it too far, too fast
+function addRejectedPrice(
+  token: Token,
+  tokenPrice: TokenPrice,
+  price: BigDecimal,
+  change: BigDecimal,
+  liquidity: BigDecimal | null,
+  blockTimestamp: BigInt
+): void {
+  let rejectedPriceCount = BigInt.zero();
+  if (token.rejectedPriceCount) {
+    rejectedPriceCount = token.rejectedPriceCount as BigInt;
+  }
+  token.rejectedPriceCount = rejectedPriceCount.plus(BigInt.fromI32(1));
+  token.save();
+
+  let rejectedPriceId = tokenPrice.id.concat('-').concat(rejectedPriceCount.toString());
+  let rejectedPrice = new RejectedPrice(rejectedPriceId);
+  rejectedPrice.token = token.id;
+  rejectedPrice.pricingAsset = tokenPrice.pricingAsset;
+  rejectedPrice.poolId = tokenPrice.poolId;
+  rejectedPrice.price = price;
+  rejectedPrice.previousPrice = token.latestUSDPrice as BigDecimal;
+  rejectedPrice.change = change;
+  rejectedPrice.liquidity = liquidity;
+  rejectedPrice.priceAge = blockTimestamp.minus(token.latestUSDPriceTimestamp as BigInt);
+  let latestUSDPriceBlock = token.latestUSDPriceBlock;
+  if (latestUSDPriceBlock) {
+    rejectedPrice.priceAgeBlocks = tokenPrice.block.minus(latestUSDPriceBlock);
+  }
+  rejectedPrice.block = tokenPrice.block;
+  rejectedPrice.timestamp = blockTimestamp;
+  rejectedPrice.save();
+}
+
+// Records the latest price of an asset in terms of a token which is not a pricing asset. These prices
+// can't be converted to USD directly, but are kept as edges of a pricing graph which tokens without
+// a direct price are routed through.
+export function updatePriceEdge(
+  poolId: string,
+  asset: Address,
+  pricingAsset: Address,
+  price: BigDecimal,
+  block: BigInt,
+  blockTimestamp: BigInt
+): void {
+  let latestPriceId = getLatestPriceId(asset, pricingAsset);
+  let latestPrice = LatestPrice.load(latestPriceId);
+
+  if (latestPrice == null) {
+    latestPrice = new LatestPrice(latestPriceId);
+    latestPrice.asset = asset;
+    latestPrice.pricingAsset = pricingAsset;
+  }
+
+  latestPrice.block = block;
+  latestPrice.poolId = poolId;
+  latestPrice.price = price;
+  let pool = Pool.load(poolId);
+  if (pool) {
+    latestPrice.liquidity = pool.totalLiquidity;
+  }
+  latestPrice.save();
+  addPriceEdge(asset, latestPrice);
+
+  let token = getToken(asset);
+  // tokens traded against a pricing asset keep their direct price
+  if (token.latestPrice) return;
+
+  // searching the pricing graph loads many entities, so in between searches the token follows its known route, if any
+  let searchTimestamp = token.priceRouteSearchTimestamp;
+  if (searchTimestamp && blockTimestamp.minus(searchTimestamp).lt(PRICE_ROUTE_SEARCH_INTERVAL)) {
+    let priceRouteId = token.priceRoute;
+    if (priceRouteId == null) return;
+    let priceRoute = TokenPriceRoute.load(priceRouteId as string);
+    if (priceRoute != null) {
+      followPriceRoute(token, priceRoute, block, blockTimestamp);
+    }
+    return;
+  }
+
+  updateRoutedUSDPrice(token, block, blockTimestamp);
+}
+
+function addPriceEdge(tokenAddress: Address, latestPrice: LatestPrice): void {
+  let token = getToken(tokenAddress);
+  let priceEdges: string[] = [];
+  if (token.priceEdges) {
+    priceEdges = token.priceEdges as string[];
+  }
+  if (priceEdges.includes(latestPrice.id)) return;
+
+  let liquidity = latestPrice.liquidity ? (latestPrice.liquidity as BigDecimal) : ZERO_BD;
+  if (priceEdges.length < MAX_PRICE_EDGES) {
+    priceEdges.push(latestPrice.id);
+  } else {
+    // an edge shallower than the shallowest kept one when they were last compared is rejected without reloading them
+    let minPriceEdgeLiquidity = token.minPriceEdgeLiquidity;
+    if (minPriceEdgeLiquidity && liquidity.le(minPriceEdgeLiquidity as BigDecimal)) return;
+
+    // replace the least liquid edge, unless the new one is even less liquid
+    let shallowestIndex = -1;
+    let shallowestLiquidity = liquidity;
+    let liquidities: BigDecimal[] = [];
+    for (let i: i32 = 0; i < priceEdges.length; i++) {
+      let edge = LatestPrice.load(priceEdges[i]);
+      let edgeLiquidity = edge != null && edge.liquidity ? (edge.liquidity as BigDecimal) : ZERO_BD;
+      liquidities.push(edgeLiquidity);
+      if (edgeLiquidity.lt(shallowestLiquidity)) {
+        shallowestIndex = i;
+        shallowestLiquidity = edgeLiquidity;
+      }
+    }
+    if (shallowestIndex >= 0) {
+      priceEdges[shallowestIndex] = latestPrice.id;
+      liquidities[shallowestIndex] = liquidity;
+    }
+
+    let minLiquidity = liquidities[0];
+    for (let i: i32 = 1; i < liquidities.length; i++) {
+      if (liquidities[i].lt(minLiquidity)) minLiquidity = liquidities[i];
+    }
+    token.minPriceEdgeLiquidity = minLiquidity;
+  }
+
+  token.priceEdges = priceEdges;
+  token.save();
+}
+
+// Searches the pricing graph breadth-first for routes of up to MAX_PRICING_HOPS edges from the token
+// to a pricing asset, and prices the token through the route whose shallowest pool is the deepest.
+// Edges set by pools below MIN_POOL_LIQUIDITY are ignored.
+function updateRoutedUSDPrice(token: Token, block: BigInt, blockTimestamp: BigInt): void {
+  let visited: string[] = [token.id];
+  let frontier: string[] = [token.id];
+  let frontierPrices: BigDecimal[] = [ONE_BD]; // price of the token in terms of each frontier token
+  let frontierLiquidities: BigDecimal[] = [ZERO_BD];
+  let frontierRoutes: string[][] = [new Array<string>()];
+
+  let bestAnchor = ZERO_ADDRESS;
+  let bestRoute: string[] = [];
+  let bestPrice = ZERO_BD;
+  let bestLiquidity = ZERO_BD;
+
+  for (let hop: i32 = 0; hop < MAX_PRICING_HOPS && frontier.length > 0; hop++) {
+    let nextFrontier: string[] = [];
+    let nextPrices: BigDecimal[] = [];
+    let nextLiquidities: BigDecimal[] = [];
+    let nextRoutes: string[][] = [];
+
+    for (let i: i32 = 0; i < frontier.length; i++) {
+      let node = Token.load(frontier[i]);
+      if (node == null || node.priceEdges == null) continue;
+      let priceEdges = node.priceEdges as string[];
+
+      for (let j: i32 = 0; j < priceEdges.length; j++) {
+        let edge = LatestPrice.load(priceEdges[j]);
+        if (edge == null || !edge.liquidity) continue;
+        let edgeLiquidity = edge.liquidity as BigDecimal;
+        if (edgeLiquidity.lt(MIN_POOL_LIQUIDITY)) continue;
+
+        let liquidity = edgeLiquidity;
+        if (hop > 0 && frontierLiquidities[i].lt(edgeLiquidity)) {
+          liquidity = frontierLiquidities[i];
+        }
+        let price = frontierPrices[i].times(edge.price);
+        let route = frontierRoutes[i].concat([edge.id]);
+        let neighbour = bytesToAddress(edge.pricingAsset);
+
+        if (isPricingAsset(neighbour)) {
+          let anchorPrice = valueInUSD(ONE_BD, neighbour);
+          if (anchorPrice.gt(ZERO_BD) && liquidity.gt(bestLiquidity)) {
+            bestAnchor = neighbour;
+            bestRoute = route;
+            bestPrice = price.times(anchorPrice);
+            bestLiquidity = liquidity;
+          }
+          continue;
+        }
+
+        let neighbourId = neighbour.toHexString();
+        if (visited.includes(neighbourId)) continue;
+        visited.push(neighbourId);
+
+        nextFrontier.push(neighbourId);
+        nextPrices.push(price);
+        nextLiquidities.push(liquidity);
+        nextRoutes.push(route);
+      }
+    }
+
+    frontier = nextFrontier;
+    frontierPrices = nextPrices;
+    frontierLiquidities = nextLiquidities;
+    frontierRoutes = nextRoutes;
+  }
+
+  // the search is throttled whether or not it finds a route
+  token.priceRouteSearchTimestamp = blockTimestamp;
+  if (bestPrice.equals(ZERO_BD)) {
     token.save();
+    return;
+  }
+
+  let priceRoute = new TokenPriceRoute(token.id);
+  priceRoute.token = token.id;
+  priceRoute.anchor = bestAnchor;
+  priceRoute.hops = bestRoute;
+  priceRoute.hopCount = bestRoute.length;
+  setRoutedUSDPrice(token, priceRoute, bestPrice, bestLiquidity, block, blockTimestamp);
+}
+
+// Prices the token along its known route, returning false if the route can no longer be followed
+function followPriceRoute(token: Token, priceRoute: TokenPriceRoute, block: BigInt, blockTimestamp: BigInt): boolean {
+  let anchorPrice = valueInUSD(ONE_BD, bytesToAddress(priceRoute.anchor));
+  if (anchorPrice.le(ZERO_BD)) return false;
+
+  let hops = priceRoute.hops;
+  let price = anchorPrice;
+  let liquidity = ZERO_BD;
+  for (let i: i32 = 0; i < hops.length; i++) {
+    let edge = LatestPrice.load(hops[i]);
+    if (edge == null || !edge.liquidity) return false;
+    let edgeLiquidity = edge.liquidity as BigDecimal;
+    if (edgeLiquidity.lt(MIN_POOL_LIQUIDITY)) return false;
+
+    price = price.times(edge.price);
+    if (i == 0 || edgeLiquidity.lt(liquidity)) {
+      liquidity = edgeLiquidity;
+    }
   }
+
+  setRoutedUSDPrice(token, priceRoute, price, liquidity, block, blockTimestamp);
+  return true;
+}
+
+function setRoutedUSDPrice(
+  token: Token,
+  priceRoute: TokenPriceRoute,
+  price: BigDecimal,
+  liquidity: BigDecimal,
+  block: BigInt,
+  blockTimestamp: BigInt
+): void {
+  priceRoute.liquidity = liquidity;
+  priceRoute.price = price;
+  priceRoute.block = block;
+  priceRoute.timestamp = blockTimestamp;
+  priceRoute.save();
+
+  setTokenUSDPrice(token, price, PriceSource.Route, liquidity, block, blockTimestamp);
+  token.priceRoute = priceRoute.id;
+  token.save();
+}
+
+const CANDLE_PERIODS = ['Hour', 'Day'];
+const CANDLE_DURATIONS: i32[] = [60 * 60, 24 * 60 * 60];
+
+// Aggregates a recorded token price into hourly and daily candles, both in terms of
+// the pricing asset it was quoted against and in USD
+export function updateTokenCandles(tokenPrice: TokenPrice, volume: BigDecimal): void {
+  let tokenId = tokenPrice.asset.toHexString();
+  let pricingAsset = Address.fromString(tokenPrice.pricingAsset.toHexString());
+  let usdPrice = valueInUSD(tokenPrice.price, pricingAsset);
+  let usdVolume = valueInUSD(volume, pricingAsset);
+
+  for (let i: i32 = 0; i < CANDLE_PERIODS.length; i++) {
+    updateTokenCandle(
+      tokenId,
+      tokenPrice.pricingAsset,
+      CANDLE_PERIODS[i],
+      CANDLE_DURATIONS[i],
+      tokenPrice.timestamp,
+      tokenPrice.price,
+      volume
+    );
+    if (usdPrice.gt(ZERO_BD)) {
+      updateTokenCandle(
+        tokenId,
+        null,
+        CANDLE_PERIODS[i],
+        CANDLE_DURATIONS[i],
+        tokenPrice.timestamp,
+        usdPrice,
+        usdVolume
+      );
+    }
+  }
+}
+
+function updateTokenCandle(
+  tokenId: string,
+  pricingAsset: Bytes | null,
+  period: string,
+  duration: i32,
+  timestamp: i32,
+  price: BigDecimal,
+  volume: BigDecimal
+): void {
+  let startTimestamp = timestamp - (timestamp % duration);
+  let denomination = 'USD';
+  if (pricingAsset) {
+    denomination = pricingAsset.toHexString();
+  }
+  let candleId = tokenId.concat('-').concat(denomination).concat('-').concat(period).concat('-');
+  candleId = candleId.concat(startTimestamp.toString());
+
+  let candle = TokenCandle.load(candleId);
+  if (candle == null) {
+    candle = new TokenCandle(candleId);
+    candle.token = tokenId;
+    candle.pricingAsset = pricingAsset;
+    candle.period = period;
+    candle.timestamp = startTimestamp;
+    candle.open = price;
+    candle.high = price;
+    candle.low = price;
+    candle.volume = ZERO_BD;
+    candle.pricesCount = BigInt.zero();
+  }
+
+  if (price.gt(candle.high)) candle.high = price;
+  if (price.lt(candle.low)) candle.low = price;
+  candle.close = price;
+  candle.volume = candle.volume.plus(volume);
+  candle.pricesCount = candle.pricesCount.plus(BigInt.fromI32(1));
+  candle.save();
 }
 
 function getPoolHistoricalLiquidityId(poolId: string, tokenAddress: Address, block: BigInt): string {
@@ -363,7 +831,10 @@ export function setWrappedTokenPrice(pool: Pool, poolId: string, block_number: B
         tokenPrice.amount = amount;
         tokenPrice.price = price;
         tokenPrice.save();
-        updateLatestPrice(tokenPrice, timestamp);
+        if (updateLatestPrice(tokenPrice, timestamp, PriceSource.WrappedRate)) {
+          // the rate is not an actual trade so it adds no volume
+          updateTokenCandles(tokenPrice, ZERO_BD);
+        }
       }
     }
   }
@@ -374,6 +845,22 @@ export function handleAnswerUpdated(event: AnswerUpdated): void {
   const answer = event.params.current;
   const tokenAddressesToUpdate: Address[] = [];
 
+  // Tokens with a Chainlink feed configured in the assets file get their USD price cross-checked
+  let isOracleAggregator = false;
+  for (let i = 0; i < ORACLE_AGGREGATORS.length; i++) {
+    const token = Token.load(ORACLE_AGGREGATORS[i][0].toHexString());
+    if (token == null) continue;
+
+    const oracleAggregator = token.oracleAggregator;
+    if (!oracleAggregator || !oracleAggregator.equals(aggregatorAddress)) continue;
+    isOracleAggregator = true;
+
+    const oracleDecimals = token.oracleDecimals;
+    const oraclePrice = scaleDown(answer, oracleDecimals ? oracleDecimals : 8);
+    updateOracleUSDPrice(token, oraclePrice, PriceSource.Oracle, event.block.number, event.block.timestamp);
+    token.save();
+  }
+
   // Check if the aggregator is under FX_ASSET_AGGREGATORS first (FXPoolFactory version)
   for (let i = 0; i < FX_ASSET_AGGREGATORS.length; i++) {
     if (aggregatorAddress == FX_ASSET_AGGREGATORS[i][1]) {
@@ -391,7 +878,7 @@ export function handleAnswerUpdated(event: AnswerUpdated): void {
         tokenAddressesToUpdate.push(tokenAddress);
       }
     }
-  } else {
+  } else if (!isOracleAggregator) {
     log.warning('Oracle not found: {}', [aggregatorAddress.toHexString()]);
   }
 
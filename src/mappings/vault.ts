@@ -1,9 +1,17 @@
-import { BigInt, BigDecimal, Address, log, ethereum } from '@graphprotocol/graph-ts';
+import { BigInt, BigDecimal, Address, Bytes, log, ethereum, store } from '@graphprotocol/graph-ts';
 import {
   Swap as SwapEvent,
   PoolBalanceChanged,
   PoolBalanceManaged,
   InternalBalanceChanged,
+  FlashLoan as FlashLoanEvent,
+  PoolRegistered,
+  TokensRegistered,
+  TokensDeregistered,
+  RelayerApprovalChanged,
+  ExternalBalanceTransfer,
+  PausedStateChanged as VaultPausedStateChanged,
+  AuthorizerChanged,
 } from '../types/Vault/Vault';
 import {
   Balancer,
@@ -15,6 +23,16 @@ import {
   ManagementOperation,
   Token,
   PoolContract,
+  FlashLoan,
+  Relayer,
+  RelayerApproval,
+  RelayerApprovalChange,
+  VaultTransfer,
+  VaultGovernanceEvent,
+  Trade,
+  PoolToken,
+  SwapClassification,
+  PoolSwapBlock,
 } from '../types/schema';
 import {
   tokenToDecimal,
@@ -33,6 +51,17 @@ import {
   getBalancerSnapshot,
   bytesToAddress,
   getPoolShare,
+  createPoolEntity,
+  createPoolTokenEntity,
+  getPoolTokenId,
+  findOrInitializeVault,
+  addPoolProtocolFee,
+  addVaultProtocolFee,
+  getPoolSwapClassificationSnapshot,
+  updateSwapFee,
+  initializeUnknownPoolSwapFee,
+  updateTopHolders,
+  updateHolderConcentration,
 } from './helpers/misc';
 import { updatePoolWeights } from './helpers/weighted';
 import {
@@ -42,14 +71,23 @@ import {
   swapValueInUSD,
   getPreferentialPricingAsset,
   updateLatestPrice,
+  updatePriceEdge,
+  updateTokenCandles,
   updatePoolLiquidity,
   setWrappedTokenPrice,
+  updateOracleAggregator,
 } from './pricing';
 import {
+  BPS,
   MIN_POOL_LIQUIDITY,
   MIN_SWAP_VALUE_USD,
+  ONE,
+  ONE_BD,
+  PriceSource,
+  ProtocolFeeType,
   SWAP_IN,
   SWAP_OUT,
+  SwapClassificationKind,
   VAULT_ADDRESS,
   ZERO,
   ZERO_ADDRESS,
@@ -59,16 +97,19 @@ import {
   hasVirtualSupply,
   isVariableWeightPool,
   isStableLikePool,
+  isGyroPool,
   PoolType,
   isLinearPool,
   isFXPool,
   isComposableStablePool,
   isManagedPool,
 } from './helpers/pools';
-import { calculateInvariant, AMP_PRECISION, updateAmpFactor } from './helpers/stable';
+import { calculateInvariant, calculateSpotPrice, AMP_PRECISION, updateAmpFactor } from './helpers/stable';
+import { calculateGyroSpotPrice, updateGyroInvariant } from './helpers/gyro';
+import { calculateFXSpotPrice, updateFXCurveState, updateFXFeeSplit } from './helpers/fx';
 import { USDC_ADDRESS } from './helpers/assets';
 import { Transfer } from '../types/Vault/ERC20';
-import { handleTransfer } from './poolController';
+import { handleInternalBalanceTransfer, handleTransfer } from './poolController';
 
 /************************************
  ******** INTERNAL BALANCES *********
@@ -98,6 +139,10 @@ export function handleInternalBalanceChange(event: InternalBalanceChanged): void
 
   userBalance.save();
 
+  let transferId = event.transaction.hash.toHexString().concat(event.logIndex.toString());
+  let kind = transferAmount.lt(ZERO) ? 'InternalBalanceWithdrawal' : 'InternalBalanceDeposit';
+  createVaultTransfer(transferId, kind, event.params.user, null, tokenAddress, scaledTransferAmount, event);
+
   // if the token is a pool's BPT, update the user's total shares
   let poolContract = PoolContract.load(tokenAddress.toHexString());
   if (poolContract == null) return;
@@ -123,7 +168,220 @@ export function handleInternalBalanceChange(event: InternalBalanceChanged): void
     ],
     event.receipt
   );
-  handleTransfer(mockEvent);
+  handleInternalBalanceTransfer(mockEvent);
+}
+
+export function handleExternalBalanceTransfer(event: ExternalBalanceTransfer): void {
+  createUserEntity(event.params.sender);
+  createUserEntity(event.params.recipient);
+
+  let tokenAddress = event.params.token;
+  let token = getToken(tokenAddress);
+  let amount = scaleDown(event.params.amount, token.decimals);
+
+  let sender = event.params.sender;
+  let recipient = event.params.recipient;
+  let transferId = event.transaction.hash.toHexString().concat(event.logIndex.toString());
+
+  // one record for each side, so that either user's history shows the transfer
+  createVaultTransfer(
+    transferId.concat('-out'),
+    'ExternalBalanceTransfer',
+    sender,
+    recipient,
+    tokenAddress,
+    amount.neg(),
+    event
+  );
+  createVaultTransfer(
+    transferId.concat('-in'),
+    'ExternalBalanceTransfer',
+    recipient,
+    sender,
+    tokenAddress,
+    amount,
+    event
+  );
+}
+
+function createVaultTransfer(
+  id: string,
+  kind: string,
+  user: Address,
+  counterparty: Address | null,
+  tokenAddress: Address,
+  amount: BigDecimal,
+  event: ethereum.Event
+): void {
+  let transfer = new VaultTransfer(id);
+  transfer.kind = kind;
+  transfer.user = user.toHexString();
+  transfer.counterparty = counterparty;
+  transfer.token = getToken(tokenAddress).id;
+  transfer.amount = amount;
+  transfer.valueUSD = valueInUSD(amount, tokenAddress);
+  transfer.timestamp = event.block.timestamp.toI32();
+  transfer.tx = event.transaction.hash;
+  transfer.block = event.block.number;
+  transfer.save();
+}
+
+/************************************
+ ************ GOVERNANCE ************
+ ************************************/
+
+// A paused Vault rejects swaps on every pool. Pools are not updated individually here,
+// consumers should combine Pool.swapEnabled with the Vault's isPaused flag.
+export function handleVaultPausedStateChanged(event: VaultPausedStateChanged): void {
+  let vault = findOrInitializeVault();
+  let isPaused = event.params.paused;
+  vault.isPaused = isPaused;
+  vault.save();
+
+  createVaultGovernanceEvent(vault, isPaused ? 'Paused' : 'Unpaused', null, event);
+}
+
+export function handleAuthorizerChanged(event: AuthorizerChanged): void {
+  let vault = findOrInitializeVault();
+  vault.authorizer = event.params.newAuthorizer;
+  vault.save();
+
+  createVaultGovernanceEvent(vault, 'AuthorizerChanged', event.params.newAuthorizer, event);
+}
+
+function createVaultGovernanceEvent(
+  vault: Balancer,
+  type: string,
+  authorizer: Address | null,
+  event: ethereum.Event
+): void {
+  let id = event.transaction.hash.toHexString().concat(event.logIndex.toString());
+  let governanceEvent = new VaultGovernanceEvent(id);
+  governanceEvent.vault = vault.id;
+  governanceEvent.type = type;
+  governanceEvent.authorizer = authorizer;
+  governanceEvent.timestamp = event.block.timestamp.toI32();
+  governanceEvent.tx = event.transaction.hash;
+  governanceEvent.block = event.block.number;
+  governanceEvent.save();
+}
+
+/************************************
+ ************* RELAYERS *************
+ ************************************/
+
+export function handleRelayerApprovalChanged(event: RelayerApprovalChanged): void {
+  createUserEntity(event.params.sender);
+
+  let userAddress = event.params.sender.toHexString();
+  let relayerAddress = event.params.relayer.toHexString();
+  let approved = event.params.approved;
+  let blockTimestamp = event.block.timestamp.toI32();
+
+  let relayer = Relayer.load(relayerAddress);
+  if (relayer == null) {
+    relayer = new Relayer(relayerAddress);
+    relayer.address = event.params.relayer;
+    relayer.activeApprovalsCount = ZERO;
+  }
+
+  let approvalId = userAddress.concat('-').concat(relayerAddress);
+  let approval = RelayerApproval.load(approvalId);
+  let wasApproved = approval != null && approval.approved;
+  if (approval == null) {
+    approval = new RelayerApproval(approvalId);
+    approval.user = userAddress;
+    approval.relayer = relayerAddress;
+  }
+
+  if (approved && !wasApproved) {
+    relayer.activeApprovalsCount = relayer.activeApprovalsCount.plus(ONE);
+  } else if (!approved && wasApproved) {
+    relayer.activeApprovalsCount = relayer.activeApprovalsCount.minus(ONE);
+  }
+  relayer.save();
+
+  approval.approved = approved;
+  approval.timestamp = blockTimestamp;
+  approval.save();
+
+  let changeId = event.transaction.hash.toHexString().concat(event.logIndex.toString());
+  let change = new RelayerApprovalChange(changeId);
+  change.approval = approvalId;
+  change.user = userAddress;
+  change.relayer = relayerAddress;
+  change.approved = approved;
+  change.timestamp = blockTimestamp;
+  change.tx = event.transaction.hash;
+  change.block = event.block.number;
+  change.save();
+}
+
+/************************************
+ ********* POOL REGISTRATION ********
+ ************************************/
+
+export function handlePoolRegistered(event: PoolRegistered): void {
+  let poolId = event.params.poolId.toHexString();
+  if (Pool.load(poolId) != null) return;
+
+  createPoolEntity(poolId, event.params.poolAddress, event.params.specialization, event);
+}
+
+export function handleTokensRegistered(event: TokensRegistered): void {
+  let poolId = event.params.poolId.toHexString();
+  let pool = Pool.load(poolId);
+  if (pool == null) {
+    log.warning('Pool not found in handleTokensRegistered: {}', [poolId]);
+    return;
+  }
+
+  let tokens = event.params.tokens;
+  let assetManagers = event.params.assetManagers;
+  let tokensList = pool.tokensList;
+
+  for (let i: i32 = 0; i < tokens.length; i++) {
+    if (tokensList.includes(tokens[i])) continue;
+    // the Vault appends newly registered tokens to the pool's token set
+    tokensList.push(tokens[i]);
+    createPoolTokenEntity(pool, tokens[i], tokensList.length - 1, assetManagers[i]);
+  }
+
+  pool.tokensList = tokensList;
+  pool.save();
+}
+
+export function handleTokensDeregistered(event: TokensDeregistered): void {
+  let poolId = event.params.poolId.toHexString();
+  let pool = Pool.load(poolId);
+  if (pool == null) {
+    log.warning('Pool not found in handleTokensDeregistered: {}', [poolId]);
+    return;
+  }
+
+  let tokens = event.params.tokens;
+  let tokensList = pool.tokensList;
+
+  for (let i: i32 = 0; i < tokens.length; i++) {
+    let index = tokensList.indexOf(tokens[i]);
+    if (index < 0) continue;
+    // the Vault's enumerable token sets remove entries by moving the last one into the freed slot
+    let lastIndex = tokensList.length - 1;
+    tokensList[index] = tokensList[lastIndex];
+    tokensList.pop();
+
+    store.remove('PoolToken', getPoolTokenId(poolId, tokens[i]));
+  }
+
+  pool.tokensList = tokensList;
+  pool.save();
+
+  for (let i: i32 = 0; i < tokensList.length; i++) {
+    let poolToken = loadPoolToken(poolId, bytesToAddress(tokensList[i]));
+    if (poolToken == null) continue;
+    poolToken.index = i;
+    poolToken.save();
+  }
 }
 
 /************************************
@@ -232,11 +490,14 @@ function handlePoolJoined(event: PoolBalanceChanged): void {
   let totalProtocolFee = pool.totalProtocolFee ? pool.totalProtocolFee : ZERO_BD;
   // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
   pool.totalProtocolFee = totalProtocolFee!.plus(protocolFeeUSD);
+  // protocol fees taken from joins and exits are the swap fees due by pools that don't pay them in BPT
+  addPoolProtocolFee(pool, ProtocolFeeType.Swap, protocolFeeUSD);
 
   let vault = Balancer.load('2') as Balancer;
   let vaultProtocolFee = vault.totalProtocolFee ? vault.totalProtocolFee : ZERO_BD;
   // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
   vault.totalProtocolFee = vaultProtocolFee!.plus(protocolFeeUSD);
+  addVaultProtocolFee(vault, ProtocolFeeType.Swap, protocolFeeUSD);
   vault.save();
   // create or update balancer's vault snapshot
   getBalancerSnapshot(vault.id, blockTimestamp);
@@ -288,6 +549,12 @@ function handlePoolJoined(event: PoolBalanceChanged): void {
     handleTransfer(mockEvent);
   }
 
+  if (isGyroPool(pool)) {
+    updateGyroInvariant(pool);
+  } else if (isFXPool(pool)) {
+    updateFXCurveState(pool);
+  }
+
   pool.save();
 
   updatePoolLiquidity(poolId, event.block.number, event.block.timestamp);
@@ -372,12 +639,19 @@ function handlePoolExited(event: PoolBalanceChanged): void {
   let totalProtocolFee = pool.totalProtocolFee ? pool.totalProtocolFee : ZERO_BD;
   // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
   pool.totalProtocolFee = totalProtocolFee!.plus(protocolFeeUSD);
+  addPoolProtocolFee(pool, ProtocolFeeType.Swap, protocolFeeUSD);
+  if (isGyroPool(pool)) {
+    updateGyroInvariant(pool);
+  } else if (isFXPool(pool)) {
+    updateFXCurveState(pool);
+  }
   pool.save();
 
   let vault = Balancer.load('2') as Balancer;
   let vaultProtocolFee = vault.totalProtocolFee ? vault.totalProtocolFee : ZERO_BD;
   // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
   vault.totalProtocolFee = vaultProtocolFee!.plus(protocolFeeUSD);
+  addVaultProtocolFee(vault, ProtocolFeeType.Swap, protocolFeeUSD);
   vault.save();
   // create or update balancer's vault snapshot
   getBalancerSnapshot(vault.id, blockTimestamp);
@@ -483,12 +757,16 @@ export function handleSwapEvent(event: SwapEvent): void {
 
   if (isVariableWeightPool(pool)) {
     // Some pools' weights update over time so we need to update them after each swap
-    updatePoolWeights(poolId.toHexString());
+    updatePoolWeights(poolId.toHexString(), event.block.timestamp);
   } else if (isStableLikePool(pool)) {
     // Stablelike pools' amplification factors update over time so we need to update them after each swap
     updateAmpFactor(pool, event.block.timestamp);
   }
 
+  initializeUnknownPoolSwapFee(pool);
+  // Pools ramping their swap fee charge a fee which changes over time, so we need to update it before each swap
+  updateSwapFee(pool, event.block.timestamp);
+
   // If swapping on a pool with preminted BPT and the BPT itself is being swapped then this is equivalent to a mint/burn in a regular pool
   // We need to update the pool's totalShares and add/subtract from the vault's share of that pool, to negate the corresponding transfer event of the BPT
   if (hasVirtualSupply(pool)) {
@@ -496,19 +774,21 @@ export function handleSwapEvent(event: SwapEvent): void {
       const scaledAmount = tokenToDecimal(event.params.amountIn, 18);
       pool.totalShares = pool.totalShares.minus(scaledAmount);
       let vaultPoolShare = getPoolShare(poolId.toHexString(), VAULT_ADDRESS);
-      let vaultPoolShareBalance = vaultPoolShare == null ? ZERO_BD : vaultPoolShare.balance;
-      vaultPoolShareBalance = vaultPoolShareBalance.minus(scaledAmount);
-      vaultPoolShare.balance = vaultPoolShareBalance;
+      let previousVaultPoolShareBalance = vaultPoolShare == null ? ZERO_BD : vaultPoolShare.balance;
+      vaultPoolShare.balance = previousVaultPoolShareBalance.minus(scaledAmount);
       vaultPoolShare.save();
+      updateTopHolders(pool, vaultPoolShare, previousVaultPoolShareBalance);
+      updateHolderConcentration(pool);
     }
     if (event.params.tokenOut == pool.address) {
       const scaledAmount = tokenToDecimal(event.params.amountOut, 18);
       pool.totalShares = pool.totalShares.plus(scaledAmount);
       let vaultPoolShare = getPoolShare(poolId.toHexString(), VAULT_ADDRESS);
-      let vaultPoolShareBalance = vaultPoolShare == null ? ZERO_BD : vaultPoolShare.balance;
-      vaultPoolShareBalance = vaultPoolShareBalance.plus(scaledAmount);
-      vaultPoolShare.balance = vaultPoolShareBalance;
+      let previousVaultPoolShareBalance = vaultPoolShare == null ? ZERO_BD : vaultPoolShare.balance;
+      vaultPoolShare.balance = previousVaultPoolShareBalance.plus(scaledAmount);
       vaultPoolShare.save();
+      updateTopHolders(pool, vaultPoolShare, previousVaultPoolShareBalance);
+      updateHolderConcentration(pool);
     }
   }
 
@@ -516,6 +796,9 @@ export function handleSwapEvent(event: SwapEvent): void {
   let tokenInAddress: Address = event.params.tokenIn;
   let tokenOutAddress: Address = event.params.tokenOut;
 
+  updateOracleAggregator(tokenInAddress, event.block.timestamp);
+  updateOracleAggregator(tokenOutAddress, event.block.timestamp);
+
   let logIndex = event.logIndex;
   let transactionHash = event.transaction.hash;
   let blockTimestamp = event.block.timestamp.toI32();
@@ -535,6 +818,7 @@ export function handleSwapEvent(event: SwapEvent): void {
 
   let swapValueUSD = ZERO_BD;
   let swapFeesUSD = ZERO_BD;
+  let swapFeeAmount = ZERO_BD;
 
   // Swap events are emitted when joining/exitting from pools with preminted BPT.
   // Since we want this type of swap to register tokens prices but not counting as volume
@@ -547,6 +831,7 @@ export function handleSwapEvent(event: SwapEvent): void {
     if (!isLinearPool(pool) && !isFXPool(pool)) {
       let swapFee = pool.swapFee;
       swapFeesUSD = swapValueUSD.times(swapFee);
+      swapFeeAmount = tokenAmountIn.times(swapFee);
     } else if (isFXPool(pool)) {
       // Custom logic for calculating trading fee for FXPools
       let isTokenInBase = tokenOutAddress == USDC_ADDRESS;
@@ -556,15 +841,33 @@ export function handleSwapEvent(event: SwapEvent): void {
       let quoteRate = quoteToken != null ? quoteToken.latestFXPrice : null;
 
       if (baseRate && quoteRate) {
+        let amountInUSD = tokenAmountIn.times(isTokenInBase ? baseRate : quoteRate);
         if (isTokenInBase) {
           swapFeesUSD = tokenAmountIn.times(baseRate).minus(tokenAmountOut.times(quoteRate));
         } else {
           swapFeesUSD = tokenAmountIn.times(quoteRate).minus(tokenAmountOut.times(baseRate));
         }
+        updateFXFeeSplit(pool, amountInUSD, swapFeesUSD);
+        if (amountInUSD.gt(ZERO_BD)) {
+          swapFeeAmount = tokenAmountIn.times(swapFeesUSD).div(amountInUSD);
+        }
       }
     }
   }
 
+  let swapId = transactionHash.toHexString().concat(logIndex.toString());
+  const isJoinExitSwap = poolAddress == tokenInAddress || poolAddress == tokenOutAddress;
+
+  // spot prices of tokenOut in terms of tokenIn around the swap, excluding fees
+  let spotPriceBefore = ZERO_BD;
+  if (!isJoinExitSwap) {
+    if (isFXPool(pool)) {
+      // the oracle rates may have moved since the curve was last updated
+      updateFXCurveState(pool);
+    }
+    spotPriceBefore = calculatePoolSpotPrice(pool, poolTokenIn, poolTokenOut, swapId);
+  }
+
   let newInAmount = poolTokenIn.balance.plus(tokenAmountIn);
   poolTokenIn.balance = newInAmount;
   poolTokenIn.save();
@@ -573,9 +876,17 @@ export function handleSwapEvent(event: SwapEvent): void {
   poolTokenOut.balance = newOutAmount;
   poolTokenOut.save();
 
-  let swapId = transactionHash.toHexString().concat(logIndex.toString());
+  if (isGyroPool(pool)) {
+    updateGyroInvariant(pool);
+  } else if (isFXPool(pool)) {
+    updateFXCurveState(pool);
+  }
+
+  let spotPriceAfter = ZERO_BD;
+  if (!isJoinExitSwap) {
+    spotPriceAfter = calculatePoolSpotPrice(pool, poolTokenIn, poolTokenOut, swapId);
+  }
 
-  const isJoinExitSwap = poolAddress == tokenInAddress || poolAddress == tokenOutAddress;
   if (isJoinExitSwap) {
     if (isComposableStablePool(pool)) {
       let tokenAddresses = pool.tokensList;
@@ -621,14 +932,34 @@ export function handleSwapEvent(event: SwapEvent): void {
   swap.timestamp = blockTimestamp;
   swap.tx = transactionHash;
   swap.block = event.block.number;
+  // all hops of a batch swap share the transaction and the caller
+  swap.trade = transactionHash.toHexString().concat('-').concat(event.transaction.from.toHexString());
+  if (spotPriceBefore.gt(ZERO_BD) && spotPriceAfter.gt(ZERO_BD)) {
+    swap.spotPriceBefore = spotPriceBefore;
+    swap.spotPriceAfter = spotPriceAfter;
+    swap.priceImpact = spotPriceAfter.minus(spotPriceBefore).div(spotPriceBefore).times(BPS);
+  }
+  swap.swapFeeAmount = swapFeeAmount;
+  swap.swapFeeUSD = swapFeesUSD;
   swap.save();
 
+  let trade = updateTrade(swap, isJoinExitSwap, event.block.number);
+  classifySwap(swap, trade, event.block.number);
+
   // update pool swapsCount
   // let pool = Pool.load(poolId.toHex());
   pool.swapsCount = pool.swapsCount.plus(BigInt.fromI32(1));
   pool.totalSwapVolume = pool.totalSwapVolume.plus(swapValueUSD);
   pool.totalSwapFee = pool.totalSwapFee.plus(swapFeesUSD);
 
+  // pools with a protocol fee cache pay their swap protocol fees later, by minting BPT to the fees collector
+  let protocolSwapFeeCache = pool.protocolSwapFeeCache;
+  if (protocolSwapFeeCache !== null) {
+    let pendingSwapProtocolFee = pool.pendingSwapProtocolFee ? pool.pendingSwapProtocolFee : ZERO_BD;
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    pool.pendingSwapProtocolFee = pendingSwapProtocolFee!.plus(swapFeesUSD.times(protocolSwapFeeCache));
+  }
+
   pool.save();
 
   // update vault total swap volume
@@ -693,6 +1024,8 @@ export function handleSwapEvent(event: SwapEvent): void {
       // As the swap is with a WeightedPool, we can easily calculate the spot price between the two tokens
       // based on the pool's weights and updated balances after the swap.
       tokenPrice.price = newInAmount.div(tokenInWeight).div(newOutAmount.div(tokenOutWeight));
+    } else if (spotPriceAfter.gt(ZERO_BD)) {
+      tokenPrice.price = spotPriceAfter;
     } else {
       // Otherwise we can get a simple measure of the price from the ratio of amount in vs amount out
       tokenPrice.price = tokenAmountIn.div(tokenAmountOut);
@@ -700,7 +1033,9 @@ export function handleSwapEvent(event: SwapEvent): void {
 
     tokenPrice.save();
 
-    updateLatestPrice(tokenPrice, event.block.timestamp);
+    if (updateLatestPrice(tokenPrice, event.block.timestamp, PriceSource.Swap)) {
+      updateTokenCandles(tokenPrice, tokenPrice.amount);
+    }
   }
   if (
     !isJoinExitSwap &&
@@ -722,6 +1057,8 @@ export function handleSwapEvent(event: SwapEvent): void {
       // As the swap is with a WeightedPool, we can easily calculate the spot price between the two tokens
       // based on the pool's weights and updated balances after the swap.
       tokenPrice.price = newOutAmount.div(tokenOutWeight).div(newInAmount.div(tokenInWeight));
+    } else if (spotPriceAfter.gt(ZERO_BD)) {
+      tokenPrice.price = ONE_BD.div(spotPriceAfter);
     } else {
       // Otherwise we can get a simple measure of the price from the ratio of amount out vs amount in
       tokenPrice.price = tokenAmountOut.div(tokenAmountIn);
@@ -729,7 +1066,33 @@ export function handleSwapEvent(event: SwapEvent): void {
 
     tokenPrice.save();
 
-    updateLatestPrice(tokenPrice, event.block.timestamp);
+    if (updateLatestPrice(tokenPrice, event.block.timestamp, PriceSource.Swap)) {
+      updateTokenCandles(tokenPrice, tokenPrice.amount);
+    }
+  }
+
+  // these tokens may have no USD price yet, so unlike direct prices the edges can't be filtered by swap value
+  if (
+    !isJoinExitSwap &&
+    !isPricingAsset(tokenInAddress) &&
+    !isPricingAsset(tokenOutAddress) &&
+    tokenAmountIn.gt(ZERO_BD) &&
+    tokenAmountOut.gt(ZERO_BD)
+  ) {
+    // Neither token can be priced directly, so record both directions of the pair as edges
+    // of the pricing graph, through which a USD price may be routed
+    let tokenOutPrice = ZERO_BD; // price of tokenOut in terms of tokenIn
+    if (tokenInWeight && tokenOutWeight) {
+      tokenOutPrice = newInAmount.div(tokenInWeight).div(newOutAmount.div(tokenOutWeight));
+    } else if (spotPriceAfter.gt(ZERO_BD)) {
+      tokenOutPrice = spotPriceAfter;
+    } else {
+      tokenOutPrice = tokenAmountIn.div(tokenAmountOut);
+    }
+
+    let timestamp = event.block.timestamp;
+    updatePriceEdge(poolId.toHex(), tokenOutAddress, tokenInAddress, tokenOutPrice, blockNumber, timestamp);
+    updatePriceEdge(poolId.toHex(), tokenInAddress, tokenOutAddress, ONE_BD.div(tokenOutPrice), blockNumber, timestamp);
   }
 
   const preferentialToken = getPreferentialPricingAsset([tokenInAddress, tokenOutAddress]);
@@ -739,3 +1102,374 @@ export function handleSwapEvent(event: SwapEvent): void {
 
   updatePoolLiquidity(poolId.toHex(), blockNumber, event.block.timestamp);
 }
+
+/************************************
+ *********** FLASH LOANS ************
+ ************************************/
+export function handleFlashLoan(event: FlashLoanEvent): void {
+  let vault = Balancer.load('2');
+  if (vault == null) {
+    log.warning('Vault not found in handleFlashLoan: {}', [event.transaction.hash.toHexString()]);
+    return;
+  }
+
+  let tokenAddress = event.params.token;
+  let token = getToken(tokenAddress);
+  let blockTimestamp = event.block.timestamp.toI32();
+
+  let amount = scaleDown(event.params.amount, token.decimals);
+  let feeAmount = scaleDown(event.params.feeAmount, token.decimals);
+  let feeAmountUSD = valueInUSD(feeAmount, tokenAddress);
+
+  let flashLoanId = event.transaction.hash.toHexString().concat(event.logIndex.toString());
+  let flashLoan = new FlashLoan(flashLoanId);
+  flashLoan.vault = vault.id;
+  flashLoan.recipient = event.params.recipient;
+  flashLoan.token = token.id;
+  flashLoan.amount = amount;
+  flashLoan.amountUSD = valueInUSD(amount, tokenAddress);
+  flashLoan.feeAmount = feeAmount;
+  flashLoan.feeAmountUSD = feeAmountUSD;
+  flashLoan.timestamp = blockTimestamp;
+  flashLoan.tx = event.transaction.hash;
+  flashLoan.block = event.block.number;
+  flashLoan.save();
+
+  // flash loan fees are paid straight to the protocol fees collector
+  let vaultProtocolFee = vault.totalProtocolFee ? vault.totalProtocolFee : ZERO_BD;
+  // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+  vault.totalProtocolFee = vaultProtocolFee!.plus(feeAmountUSD);
+  addVaultProtocolFee(vault, ProtocolFeeType.FlashLoan, feeAmountUSD);
+  vault.save();
+
+  let vaultSnapshot = getBalancerSnapshot(vault.id, blockTimestamp);
+  vaultSnapshot.totalProtocolFee = vault.totalProtocolFee;
+  vaultSnapshot.save();
+
+  let flashLoanCount = token.totalFlashLoanCount ? token.totalFlashLoanCount : ZERO;
+  let flashLoanVolume = token.totalFlashLoanVolumeNotional ? token.totalFlashLoanVolumeNotional : ZERO_BD;
+  let flashLoanFee = token.totalFlashLoanFeeNotional ? token.totalFlashLoanFeeNotional : ZERO_BD;
+  let flashLoanFeeUSD = token.totalFlashLoanFeeUSD ? token.totalFlashLoanFeeUSD : ZERO_BD;
+  // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+  token.totalFlashLoanCount = flashLoanCount!.plus(BigInt.fromI32(1));
+  // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+  token.totalFlashLoanVolumeNotional = flashLoanVolume!.plus(amount);
+  // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+  token.totalFlashLoanFeeNotional = flashLoanFee!.plus(feeAmount);
+  // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+  token.totalFlashLoanFeeUSD = flashLoanFeeUSD!.plus(feeAmountUSD);
+  token.save();
+
+  let tokenSnapshot = getTokenSnapshot(tokenAddress, event);
+  tokenSnapshot.totalFlashLoanCount = token.totalFlashLoanCount;
+  tokenSnapshot.totalFlashLoanVolumeNotional = token.totalFlashLoanVolumeNotional;
+  tokenSnapshot.totalFlashLoanFeeNotional = token.totalFlashLoanFeeNotional;
+  tokenSnapshot.totalFlashLoanFeeUSD = token.totalFlashLoanFeeUSD;
+  tokenSnapshot.save();
+}
+
+function updateTrade(swap: Swap, isJoinExitSwap: boolean, blockNumber: BigInt): Trade {
+  let tradeId = swap.trade as string;
+  let trade = Trade.load(tradeId);
+  if (trade == null) {
+    trade = new Trade(tradeId);
+    trade.caller = swap.caller;
+    trade.user = swap.userAddress;
+    trade.swaps = [];
+    trade.path = [];
+    trade.pools = [];
+    trade.netTokens = [];
+    trade.netAmounts = [];
+    trade.hopsCount = 0;
+    trade.bptHopsCount = 0;
+    trade.timestamp = swap.timestamp;
+    trade.block = blockNumber;
+    trade.tx = swap.tx;
+  }
+
+  // hops chain into each other, unless the caller swaps through disjoint routes
+  let path = trade.path;
+  if (path.length == 0 || path[path.length - 1] != swap.tokenIn) {
+    path.push(swap.tokenIn);
+  }
+  path.push(swap.tokenOut);
+  trade.path = path;
+
+  let swaps = trade.swaps;
+  swaps.push(swap.id);
+  trade.swaps = swaps;
+
+  let pools = trade.pools;
+  pools.push(swap.poolId);
+  trade.pools = pools;
+
+  let netTokens = trade.netTokens;
+  let netAmounts = trade.netAmounts;
+  addTradeNetAmount(netTokens, netAmounts, swap.tokenIn, swap.tokenAmountIn);
+  addTradeNetAmount(netTokens, netAmounts, swap.tokenOut, swap.tokenAmountOut.neg());
+  trade.netTokens = netTokens;
+  trade.netAmounts = netAmounts;
+
+  // intermediate tokens net out, so the trade goes from the first token the caller paid for
+  // to the last token the caller received
+  let tokenInIndex = -1;
+  let tokenOutIndex = -1;
+  for (let i: i32 = 0; i < path.length; i++) {
+    let index = netTokens.indexOf(path[i]);
+    if (tokenInIndex < 0 && netAmounts[index].gt(ZERO_BD)) {
+      tokenInIndex = index;
+    }
+    if (netAmounts[index].lt(ZERO_BD)) {
+      tokenOutIndex = index;
+    }
+  }
+
+  let tokenIn: Bytes | null = null;
+  let tokenOut: Bytes | null = null;
+  let tokenAmountIn = ZERO_BD;
+  let tokenAmountOut = ZERO_BD;
+  let valueUSD = ZERO_BD;
+  if (tokenInIndex >= 0) {
+    tokenIn = netTokens[tokenInIndex];
+    tokenAmountIn = netAmounts[tokenInIndex];
+    valueUSD = valueInUSD(tokenAmountIn, bytesToAddress(netTokens[tokenInIndex]));
+  }
+  if (tokenOutIndex >= 0) {
+    tokenOut = netTokens[tokenOutIndex];
+    tokenAmountOut = netAmounts[tokenOutIndex].neg();
+    if (valueUSD.equals(ZERO_BD)) {
+      valueUSD = valueInUSD(tokenAmountOut, bytesToAddress(netTokens[tokenOutIndex]));
+    }
+  }
+
+  trade.tokenIn = tokenIn;
+  trade.tokenAmountIn = tokenAmountIn;
+  trade.tokenOut = tokenOut;
+  trade.tokenAmountOut = tokenAmountOut;
+  trade.valueUSD = valueUSD;
+  trade.hopsCount += 1;
+  if (isJoinExitSwap) {
+    trade.bptHopsCount += 1;
+  }
+  trade.save();
+
+  return trade;
+}
+
+// Classifies the swap against the swaps emitted before it in the same block:
+// - cyclic arbitrage, when the swap's trade ends in the token it started from
+// - sandwich, when the caller reverses their previous swap in the pool after others traded the same way in between
+// - back-run, when the swap reverses the previous swap in the pool, made by another caller
+function classifySwap(swap: Swap, trade: Trade, blockNumber: BigInt): void {
+  classifyCyclicArbitrage(swap, trade, blockNumber);
+  classifySandwich(swap, blockNumber);
+}
+
+// A trade is a cyclic arbitrage while its path ends in the token it started from, which
+// can stop being the case as further hops are added, so every hop of the trade is re-evaluated.
+function classifyCyclicArbitrage(swap: Swap, trade: Trade, blockNumber: BigInt): void {
+  let path = trade.path;
+  let isCyclic = trade.hopsCount > 1 && path[0] == path[path.length - 1];
+  let swapIds = trade.swaps;
+  let firstClassification = SwapClassification.load(swapIds[0]);
+  let wasCyclic =
+    firstClassification != null && firstClassification.kinds.includes(SwapClassificationKind.CyclicArbitrage);
+
+  if (isCyclic == wasCyclic) {
+    if (isCyclic) addSwapClassification(swap, SwapClassificationKind.CyclicArbitrage, blockNumber);
+    return;
+  }
+
+  for (let i: i32 = 0; i < swapIds.length; i++) {
+    let hop = swapIds[i] == swap.id ? swap : Swap.load(swapIds[i]);
+    if (hop == null) continue;
+    if (isCyclic) {
+      addSwapClassification(hop, SwapClassificationKind.CyclicArbitrage, blockNumber);
+    } else {
+      removeSwapClassification(hop, SwapClassificationKind.CyclicArbitrage);
+    }
+  }
+}
+
+function classifySandwich(swap: Swap, blockNumber: BigInt): void {
+  // only the pool's swaps of the current block matter, so the buffer is reset once a new block comes in
+  let swapBlock = PoolSwapBlock.load(swap.poolId);
+  if (swapBlock == null || swapBlock.block != blockNumber) {
+    swapBlock = new PoolSwapBlock(swap.poolId);
+    swapBlock.block = blockNumber;
+    swapBlock.swaps = [];
+    swapBlock.callers = [];
+    swapBlock.tokensIn = [];
+    swapBlock.tokensOut = [];
+  }
+  let swapIds = swapBlock.swaps;
+  let callers = swapBlock.callers;
+  let tokensIn = swapBlock.tokensIn;
+  let tokensOut = swapBlock.tokensOut;
+
+  // walk back to the caller's previous swap in the pool, collecting the swaps of others in the opposite direction
+  let frontRunIndex = -1;
+  let victimIndexes: i32[] = [];
+  for (let i = swapIds.length - 1; i >= 0; i--) {
+    let isReversed = tokensIn[i] == swap.tokenOut && tokensOut[i] == swap.tokenIn;
+    if (callers[i] == swap.caller) {
+      if (isReversed && victimIndexes.length > 0) {
+        frontRunIndex = i;
+      }
+      break;
+    }
+    if (isReversed) {
+      victimIndexes.push(i);
+    }
+  }
+
+  let last = swapIds.length - 1;
+  if (frontRunIndex >= 0) {
+    let frontRun = Swap.load(swapIds[frontRunIndex]);
+    if (frontRun != null) {
+      addSwapClassification(frontRun, SwapClassificationKind.SandwichFrontRun, blockNumber);
+    }
+    for (let i: i32 = 0; i < victimIndexes.length; i++) {
+      let victim = Swap.load(swapIds[victimIndexes[i]]);
+      if (victim != null) {
+        addSwapClassification(victim, SwapClassificationKind.Sandwiched, blockNumber);
+      }
+    }
+    addSwapClassification(swap, SwapClassificationKind.SandwichBackRun, blockNumber);
+  } else if (
+    last >= 0 &&
+    callers[last] != swap.caller &&
+    tokensIn[last] == swap.tokenOut &&
+    tokensOut[last] == swap.tokenIn
+  ) {
+    addSwapClassification(swap, SwapClassificationKind.BackRun, blockNumber);
+  }
+
+  swapIds.push(swap.id);
+  callers.push(swap.caller);
+  tokensIn.push(swap.tokenIn);
+  tokensOut.push(swap.tokenOut);
+  swapBlock.swaps = swapIds;
+  swapBlock.callers = callers;
+  swapBlock.tokensIn = tokensIn;
+  swapBlock.tokensOut = tokensOut;
+  swapBlock.save();
+}
+
+function addSwapClassification(swap: Swap, kind: string, blockNumber: BigInt): void {
+  let classification = SwapClassification.load(swap.id);
+  if (classification == null) {
+    classification = new SwapClassification(swap.id);
+    classification.swap = swap.id;
+    classification.pool = swap.poolId;
+    classification.kinds = [];
+    classification.timestamp = swap.timestamp;
+    classification.block = blockNumber;
+  }
+
+  let kinds = classification.kinds;
+  if (kinds.includes(kind)) return;
+
+  let wasToxic = isToxicSwap(kinds);
+  kinds.push(kind);
+  classification.kinds = kinds;
+  classification.save();
+
+  let toxicVolumeUSD = !wasToxic && isToxicSwap(kinds) ? swap.valueUSD : ZERO_BD;
+  updateSwapClassificationSnapshot(swap, kind, ONE, swap.valueUSD, toxicVolumeUSD);
+}
+
+function removeSwapClassification(swap: Swap, kind: string): void {
+  let classification = SwapClassification.load(swap.id);
+  if (classification == null) return;
+
+  let kinds = classification.kinds;
+  let index = kinds.indexOf(kind);
+  if (index < 0) return;
+
+  let wasToxic = isToxicSwap(kinds);
+  kinds.splice(index, 1);
+  if (kinds.length == 0) {
+    store.remove('SwapClassification', classification.id);
+  } else {
+    classification.kinds = kinds;
+    classification.save();
+  }
+
+  let toxicVolumeUSD = wasToxic && !isToxicSwap(kinds) ? swap.valueUSD : ZERO_BD;
+  updateSwapClassificationSnapshot(swap, kind, ONE.neg(), swap.valueUSD.neg(), toxicVolumeUSD.neg());
+}
+
+// victims of sandwiches are the only flow that isn't toxic
+function isToxicSwap(kinds: string[]): boolean {
+  for (let i: i32 = 0; i < kinds.length; i++) {
+    if (kinds[i] != SwapClassificationKind.Sandwiched) return true;
+  }
+  return false;
+}
+
+function updateSwapClassificationSnapshot(
+  swap: Swap,
+  kind: string,
+  count: BigInt,
+  volumeUSD: BigDecimal,
+  toxicVolumeUSD: BigDecimal
+): void {
+  let snapshot = getPoolSwapClassificationSnapshot(swap.poolId, swap.timestamp);
+  if (kind == SwapClassificationKind.CyclicArbitrage) {
+    snapshot.cyclicArbitrageCount = snapshot.cyclicArbitrageCount.plus(count);
+    snapshot.cyclicArbitrageVolumeUSD = snapshot.cyclicArbitrageVolumeUSD.plus(volumeUSD);
+  } else if (kind == SwapClassificationKind.SandwichFrontRun) {
+    snapshot.sandwichAttackVolumeUSD = snapshot.sandwichAttackVolumeUSD.plus(volumeUSD);
+  } else if (kind == SwapClassificationKind.SandwichBackRun) {
+    snapshot.sandwichCount = snapshot.sandwichCount.plus(count);
+    snapshot.sandwichAttackVolumeUSD = snapshot.sandwichAttackVolumeUSD.plus(volumeUSD);
+  } else if (kind == SwapClassificationKind.Sandwiched) {
+    snapshot.sandwichedCount = snapshot.sandwichedCount.plus(count);
+    snapshot.sandwichedVolumeUSD = snapshot.sandwichedVolumeUSD.plus(volumeUSD);
+  } else if (kind == SwapClassificationKind.BackRun) {
+    snapshot.backRunCount = snapshot.backRunCount.plus(count);
+    snapshot.backRunVolumeUSD = snapshot.backRunVolumeUSD.plus(volumeUSD);
+  }
+  snapshot.toxicVolumeUSD = snapshot.toxicVolumeUSD.plus(toxicVolumeUSD);
+  snapshot.save();
+}
+
+// Returns the price of the swap's tokenOut in terms of its tokenIn given the pool's current state, excluding fees.
+// Weighted pools are priced from their weights, while stable-like, Gyro and FX pools have no weights,
+// so the spot price is derived from their invariant instead. Returns zero if it can't be computed.
+function calculatePoolSpotPrice(
+  pool: Pool,
+  poolTokenIn: PoolToken,
+  poolTokenOut: PoolToken,
+  swapId: string
+): BigDecimal {
+  let tokenInAddress = Address.fromString(poolTokenIn.address);
+  let tokenOutAddress = Address.fromString(poolTokenOut.address);
+
+  let tokenInWeight = poolTokenIn.weight;
+  let tokenOutWeight = poolTokenOut.weight;
+  if (tokenInWeight && tokenOutWeight) {
+    if (poolTokenOut.balance.le(ZERO_BD)) return ZERO_BD;
+    return poolTokenIn.balance.div(tokenInWeight).div(poolTokenOut.balance.div(tokenOutWeight));
+  }
+
+  if (isStableLikePool(pool)) {
+    return calculateSpotPrice(pool, tokenOutAddress, tokenInAddress, swapId);
+  } else if (isGyroPool(pool)) {
+    return calculateGyroSpotPrice(pool, tokenOutAddress, tokenInAddress);
+  } else if (isFXPool(pool)) {
+    return calculateFXSpotPrice(pool, tokenOutAddress, tokenInAddress);
+  }
+  return ZERO_BD;
+}
+
+function addTradeNetAmount(tokens: Bytes[], amounts: BigDecimal[], token: Bytes, amount: BigDecimal): void {
+  let index = tokens.indexOf(token);
+  if (index < 0) {
+    tokens.push(token);
+    amounts.push(amount);
+  } else {
+    amounts[index] = amounts[index].plus(amount);
+  }
+}